@@ -0,0 +1,277 @@
+/**
+ * DataverseFileColumn.ts
+ *
+ * Storage provider that writes uploads into a File or Image column of a Dataverse
+ * record. Uploads use the chunked file messages (InitializeFileBlocksUpload,
+ * UploadBlock, CommitFileBlocksUpload). A column holds a single file, so every
+ * upload replaces the current one.
+ */
+
+import {
+  IStorageProvider,
+  IUploadResult,
+  IExistingFile,
+  IDeleteResult,
+  IDownloadResult,
+  IUploadOptions,
+  fileToBase64,
+  createTransferProgressEvent,
+  createBlockId,
+} from "./StorageProvider";
+import {
+  WEB_API_PATH,
+  normalizeRecordId,
+  createEntitySetNameResolver,
+  sendWebApiRequest,
+} from "./DataverseWebApi";
+
+/**
+ * Configuration of the Dataverse file column storage provider
+ */
+export interface IDataverseFileColumnConfig {
+  /** Web API of the control context */
+  webAPI: ComponentFramework.WebApi;
+  /** Utility API of the control context, used to resolve the entity set name */
+  utils: ComponentFramework.Utility;
+  /** Logical name of the table holding the column */
+  entityLogicalName: string;
+  /** ID of the record holding the column */
+  recordId: string;
+  /** Logical name of the File or Image column */
+  columnName: string;
+  /** Whether the column is an Image column rather than a File column */
+  isImageColumn: boolean;
+}
+
+/**
+ * Response of the InitializeFileBlocksUpload message
+ */
+interface IInitializeFileBlocksUploadResponse {
+  FileContinuationToken: string;
+}
+
+/**
+ * Response of the CommitFileBlocksUpload message
+ */
+interface ICommitFileBlocksUploadResponse {
+  FileId: string;
+  FileSizeInBytes: number;
+}
+
+/**
+ * File attachment columns read for the file of a File column
+ */
+interface IFileAttachmentRecord {
+  filename?: string;
+  filesizeinbytes?: number;
+  mimetype?: string;
+  createdon?: string;
+}
+
+/** UploadBlock accepts at most 4 MB per block */
+const FILE_BLOCK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Creates the storage provider that stores a file in a File or Image column
+ * @param config - Dataverse file column configuration
+ * @returns Storage provider backed by the column
+ */
+export const createDataverseFileColumnStorageProvider = (config: IDataverseFileColumnConfig): IStorageProvider => {
+  const recordId = normalizeRecordId(config.recordId || '');
+  const column = config.columnName;
+  const getEntitySetName = createEntitySetNameResolver(config.utils, config.entityLogicalName);
+
+  // Path of the column on the record, e.g. accounts(<id>)/myfile
+  const getColumnPath = async (): Promise<string> => {
+    return `${await getEntitySetName()}(${recordId})/${column}`;
+  };
+
+  const isConfigured = (): boolean => {
+    return !!(config.webAPI && config.entityLogicalName && recordId && column);
+  };
+
+  const listFiles = async (): Promise<IExistingFile[]> => {
+    if (config.isImageColumn) {
+      const record = await config.webAPI.retrieveRecord(
+        config.entityLogicalName,
+        recordId,
+        `?$select=${column}id,${column}_timestamp,${column}_url`
+      );
+      if (!record[`${column}id`]) {
+        return [];
+      }
+      // Image columns keep no file name, so the column name stands in for it
+      return [{
+        name: column,
+        size: 0,
+        url: record[`${column}_url`] || '',
+        lastModified: record[`${column}_timestamp`]
+          ? new Date(record[`${column}_timestamp`] * 1000)
+          : new Date(),
+        metadata: { imageId: record[`${column}id`] },
+      }];
+    }
+
+    const record = await config.webAPI.retrieveRecord(
+      config.entityLogicalName,
+      recordId,
+      `?$select=${column},${column}_name`
+    );
+    const fileId: string | null = record[column];
+    if (!fileId) {
+      return [];
+    }
+
+    // Size and date live on the file attachment; the name is enough when it cannot be read
+    let attachment: IFileAttachmentRecord = {};
+    try {
+      attachment = (await config.webAPI.retrieveRecord(
+        'fileattachment',
+        fileId,
+        '?$select=filename,filesizeinbytes,mimetype,createdon'
+      )) as IFileAttachmentRecord;
+    } catch (error) {
+      console.warn(`Failed to read file attachment of column ${column}:`, error);
+    }
+
+    return [{
+      name: record[`${column}_name`] || attachment.filename || column,
+      size: attachment.filesizeinbytes || 0,
+      url: '',
+      lastModified: attachment.createdon ? new Date(attachment.createdon) : new Date(),
+      metadata: { fileId, contentType: attachment.mimetype },
+    }];
+  };
+
+  const uploadFile = async (file: File, folderPath: string, options: IUploadOptions = {}): Promise<IUploadResult> => {
+    const cancelled = (): IUploadResult => ({
+      fileName: file.name,
+      url: '',
+      success: false,
+      error: 'Upload cancelled',
+      attempts: 1,
+      cancelled: true,
+    });
+
+    try {
+      const blockCount = Math.max(1, Math.ceil(file.size / FILE_BLOCK_SIZE));
+      let sentBytes = 0;
+      if (options.onProgress) {
+        options.onProgress(createTransferProgressEvent(0, file.size));
+      }
+
+      const initializeResponse = await sendWebApiRequest('POST', 'InitializeFileBlocksUpload', {
+        Target: {
+          '@odata.type': `Microsoft.Dynamics.CRM.${config.entityLogicalName}`,
+          [`${config.entityLogicalName}id`]: recordId,
+        },
+        FileAttributeName: column,
+        FileName: file.name,
+      }, options.signal);
+      const { FileContinuationToken } = (await initializeResponse.json()) as IInitializeFileBlocksUploadResponse;
+
+      // Blocks are only committed at the end, so a cancelled upload leaves the column untouched
+      const blockIds: string[] = [];
+      for (let blockIndex = 0; blockIndex < blockCount; blockIndex++) {
+        if (options.signal?.aborted) {
+          return cancelled();
+        }
+        const start = blockIndex * FILE_BLOCK_SIZE;
+        const block = file.slice(start, Math.min(start + FILE_BLOCK_SIZE, file.size));
+        const blockId = createBlockId(blockIndex);
+
+        await sendWebApiRequest('POST', 'UploadBlock', {
+          BlockId: blockId,
+          BlockData: await fileToBase64(block),
+          FileContinuationToken,
+        }, options.signal);
+
+        blockIds.push(blockId);
+        sentBytes += block.size;
+        if (options.onProgress) {
+          options.onProgress(createTransferProgressEvent(sentBytes, file.size));
+        }
+      }
+
+      const commitResponse = await sendWebApiRequest('POST', 'CommitFileBlocksUpload', {
+        FileName: file.name,
+        MimeType: file.type || 'application/octet-stream',
+        BlockList: blockIds,
+        FileContinuationToken,
+      }, options.signal);
+      const commitResult = (await commitResponse.json()) as ICommitFileBlocksUploadResponse;
+
+      return {
+        fileName: file.name,
+        url: '',
+        success: true,
+        flowRunId: commitResult.FileId,
+        attempts: 1,
+      };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return cancelled();
+      }
+      console.error('Dataverse file column upload error:', error);
+      return {
+        fileName: file.name,
+        url: '',
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        attempts: 1,
+      };
+    }
+  };
+
+  const deleteFile = async (fileName: string): Promise<IDeleteResult> => {
+    try {
+      // Deleting the column value removes the file and clears the column
+      await sendWebApiRequest('DELETE', await getColumnPath());
+      return { fileName, success: true };
+    } catch (error) {
+      console.error(`Error clearing column ${column}:`, error);
+      return {
+        fileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  const downloadFile = async (fileName: string): Promise<IDownloadResult> => {
+    try {
+      const response = await fetch(
+        `${WEB_API_PATH}${await getColumnPath()}/$value${config.isImageColumn ? '?size=full' : ''}`,
+        { credentials: 'same-origin' }
+      );
+      if (!response.ok) {
+        throw new Error(`Download file failed: ${response.status} ${response.statusText}`);
+      }
+
+      const content = await response.blob();
+      return {
+        fileName: response.headers.get('x-ms-file-name') || fileName,
+        success: true,
+        fileContent: await fileToBase64(content),
+        contentType: content.type || 'application/octet-stream',
+        fileSize: content.size,
+      };
+    } catch (error) {
+      console.error(`Error downloading column ${column}:`, error);
+      return {
+        fileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  return {
+    name: config.isImageColumn ? 'dataverseimagecolumn' : 'dataversefilecolumn',
+    isConfigured,
+    listFiles,
+    uploadFile,
+    deleteFile,
+    downloadFile,
+  };
+};
@@ -0,0 +1,336 @@
+/**
+ * DataverseNotes.ts
+ *
+ * Storage provider that keeps files as note (annotation) attachments of a
+ * Dataverse record, using the control's Web API access. Notes have no folders,
+ * so every file belongs directly to the record. In versioning mode the older notes
+ * of a file name are its prior versions. Upload metadata is kept as JSON in the
+ * note text.
+ */
+
+import {
+  IStorageProvider,
+  IUploadResult,
+  IExistingFile,
+  IListFilesPage,
+  IDeleteResult,
+  IDownloadResult,
+  IUploadOptions,
+  IFileVersion,
+  IRestoreVersionResult,
+  IRenameResult,
+  fileToBase64,
+  createTransferProgressEvent,
+} from "./StorageProvider";
+import {
+  escapeODataString,
+  normalizeRecordId,
+  createEntitySetNameResolver,
+} from "./DataverseWebApi";
+
+/**
+ * Configuration of the Dataverse notes storage provider
+ */
+export interface IDataverseNotesConfig {
+  /** Web API of the control context */
+  webAPI: ComponentFramework.WebApi;
+  /** Utility API of the control context, used to resolve the entity set name */
+  utils: ComponentFramework.Utility;
+  /** Logical name of the table the notes are attached to */
+  entityLogicalName: string;
+  /** ID of the record the notes are attached to */
+  recordId: string;
+  /** Whether re-uploaded files keep their older notes as prior versions */
+  versioning?: boolean;
+}
+
+/**
+ * Annotation columns read by the provider
+ */
+interface IAnnotationRecord {
+  annotationid: string;
+  filename: string;
+  filesize?: number;
+  mimetype?: string;
+  modifiedon?: string;
+  subject?: string;
+  notetext?: string;
+  documentbody?: string;
+}
+
+/** Annotation columns returned by list queries; documentbody is only read on download */
+const ANNOTATION_LIST_COLUMNS = 'annotationid,filename,filesize,mimetype,modifiedon,subject,notetext';
+
+/**
+ * Reads the upload metadata kept in the text of a note
+ * @param noteText - Text of the note
+ * @returns Metadata, or undefined when the text is not a JSON object written by the provider
+ */
+const parseNoteMetadata = (noteText?: string): Record<string, string> | undefined => {
+  if (!noteText || !noteText.trim().startsWith('{')) {
+    return undefined;
+  }
+  try {
+    const metadata = JSON.parse(noteText);
+    return metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? metadata : undefined;
+  } catch (parseError) {
+    // Text written by users stays out of the metadata
+    return undefined;
+  }
+};
+
+/**
+ * Creates the storage provider that stores files as notes of a Dataverse record
+ * @param config - Dataverse notes configuration
+ * @returns Storage provider backed by annotation records
+ */
+export const createDataverseNotesStorageProvider = (config: IDataverseNotesConfig): IStorageProvider => {
+  const recordId = normalizeRecordId(config.recordId || '');
+  // The objectid lookup binds through the entity set name
+  const getEntitySetName = createEntitySetNameResolver(config.utils, config.entityLogicalName);
+
+  // Query of the notes of the record that carry a file, most recent first
+  const getNotesQuery = (fileName?: string, top?: number): string => {
+    let filter = `_objectid_value eq ${recordId} and isdocument eq true`;
+    if (fileName) {
+      filter += ` and filename eq '${escapeODataString(fileName)}'`;
+    }
+    return `?$select=${ANNOTATION_LIST_COLUMNS}&$filter=${filter}&$orderby=modifiedon desc${top ? `&$top=${top}` : ''}`;
+  };
+
+  // Notes of the record that carry a file, optionally only those with a file name
+  const findNotes = async (fileName?: string, top?: number): Promise<IAnnotationRecord[]> => {
+    const response = await config.webAPI.retrieveMultipleRecords('annotation', getNotesQuery(fileName, top));
+    return response.entities as IAnnotationRecord[];
+  };
+
+  const toExistingFile = (note: IAnnotationRecord): IExistingFile => ({
+    name: note.filename,
+    size: note.filesize || 0,
+    url: '',
+    lastModified: note.modifiedon ? new Date(note.modifiedon) : new Date(),
+    metadata: {
+      ...parseNoteMetadata(note.notetext),
+      annotationId: note.annotationid,
+      subject: note.subject,
+      contentType: note.mimetype,
+    },
+  });
+
+  // Attaches a new note carrying a file to the record
+  const createNote = async (fileName: string, mimeType: string | undefined, documentBody: string, metadata?: Record<string, string>) => {
+    const note: Record<string, any> = {
+      subject: fileName,
+      filename: fileName,
+      mimetype: mimeType || 'application/octet-stream',
+      documentbody: documentBody,
+      isdocument: true,
+      objecttypecode: config.entityLogicalName,
+    };
+    if (metadata && Object.keys(metadata).length > 0) {
+      note.notetext = JSON.stringify(metadata);
+    }
+    note[`objectid_${config.entityLogicalName}@odata.bind`] = `/${await getEntitySetName()}(${recordId})`;
+    return config.webAPI.createRecord('annotation', note);
+  };
+
+  const isConfigured = (): boolean => {
+    return !!(config.webAPI && config.entityLogicalName && recordId);
+  };
+
+  const listFiles = async (): Promise<IExistingFile[]> => {
+    const notes = await findNotes();
+    // In versioning mode only the most recent note of a file name is the current file
+    const currentNotes = config.versioning
+      ? notes.filter((note, index) => notes.findIndex(other => other.filename === note.filename) === index)
+      : notes;
+    return currentNotes.map(toExistingFile);
+  };
+
+  const listFilesPage = async (folderPath: string, pageSize: number, continuationToken?: string): Promise<IListFilesPage> => {
+    // The continuation token is the query of the next page link, which carries its $skiptoken
+    const response = await config.webAPI.retrieveMultipleRecords('annotation', continuationToken || getNotesQuery(), pageSize);
+    return {
+      entries: (response.entities as IAnnotationRecord[]).map(toExistingFile),
+      continuationToken: response.nextLink ? response.nextLink.substring(response.nextLink.indexOf('?')) : undefined,
+    };
+  };
+
+  const uploadFile = async (file: File, folderPath: string, options: IUploadOptions = {}): Promise<IUploadResult> => {
+    try {
+      if (options.signal?.aborted) {
+        return { fileName: file.name, url: '', success: false, error: 'Upload cancelled', attempts: 0, cancelled: true };
+      }
+      if (options.onProgress) {
+        options.onProgress(createTransferProgressEvent(0, file.size));
+      }
+
+      const documentBody = await fileToBase64(file);
+
+      // Notes allow duplicate names, so overwriting removes the existing notes of the file
+      // unless they are kept as prior versions
+      const replacedNotes = options.conflictAction === 'Overwrite' && !config.versioning ? await findNotes(file.name) : [];
+
+      // The Web API reports no upload progress, and a created note cannot be cancelled
+      const created = await createNote(file.name, file.type, documentBody, options.metadata);
+      for (const replacedNote of replacedNotes) {
+        await config.webAPI.deleteRecord('annotation', replacedNote.annotationid);
+      }
+      if (options.onProgress) {
+        options.onProgress(createTransferProgressEvent(file.size, file.size));
+      }
+
+      return {
+        fileName: file.name,
+        url: '',
+        success: true,
+        flowRunId: created.id,
+        attempts: 1,
+      };
+    } catch (error) {
+      console.error('Dataverse note upload error:', error);
+      return {
+        fileName: file.name,
+        url: '',
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        attempts: 1,
+      };
+    }
+  };
+
+  const deleteFile = async (fileName: string): Promise<IDeleteResult> => {
+    try {
+      // Deletes the most recent note carrying the file name, along with its versions in versioning mode
+      const notes = await findNotes(fileName, config.versioning ? undefined : 1);
+      if (notes.length === 0) {
+        throw new Error(`File ${fileName} was not found`);
+      }
+      for (const note of notes) {
+        await config.webAPI.deleteRecord('annotation', note.annotationid);
+      }
+      return { fileName, success: true };
+    } catch (error) {
+      console.error(`Error deleting note ${fileName}:`, error);
+      return {
+        fileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  // Reads a note including its document body
+  const retrieveNoteWithBody = async (annotationId: string): Promise<IAnnotationRecord> => {
+    return (await config.webAPI.retrieveRecord(
+      'annotation',
+      annotationId,
+      '?$select=annotationid,filename,filesize,mimetype,notetext,documentbody'
+    )) as IAnnotationRecord;
+  };
+
+  // Downloads the most recent note of a file name, or the note given as version
+  const downloadNote = async (fileName: string, versionId?: string): Promise<IDownloadResult> => {
+    try {
+      const [note] = versionId ? [{ annotationid: versionId }] : await findNotes(fileName, 1);
+      if (!note) {
+        throw new Error(`File ${fileName} was not found`);
+      }
+      const record = await retrieveNoteWithBody(note.annotationid);
+
+      return {
+        fileName: record.filename || fileName,
+        success: true,
+        fileContent: record.documentbody,
+        contentType: record.mimetype || 'application/octet-stream',
+        fileSize: record.filesize || 0,
+      };
+    } catch (error) {
+      console.error(`Error downloading note ${fileName}:`, error);
+      return {
+        fileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  const renameFile = async (fileName: string, newFileName: string): Promise<IRenameResult> => {
+    try {
+      // Renames every note of the file name, so prior versions follow the file
+      const notes = await findNotes(fileName);
+      if (notes.length === 0) {
+        throw new Error(`File ${fileName} was not found`);
+      }
+      for (const note of notes) {
+        const changes: Record<string, any> = { filename: newFileName };
+        // The subject defaults to the file name; a subject set by someone else is kept
+        if (note.subject === fileName) {
+          changes.subject = newFileName;
+        }
+        await config.webAPI.updateRecord('annotation', note.annotationid, changes);
+      }
+      return { fileName, newFileName, success: true };
+    } catch (error) {
+      console.error(`Error renaming note ${fileName}:`, error);
+      return {
+        fileName,
+        newFileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  const downloadFile = (fileName: string): Promise<IDownloadResult> => {
+    return downloadNote(fileName);
+  };
+
+  const listVersions = async (fileName: string): Promise<IFileVersion[]> => {
+    // The most recent note is the current file, every older one a prior version
+    const notes = await findNotes(fileName);
+    return notes.slice(1).map(note => ({
+      versionId: note.annotationid,
+      size: note.filesize || 0,
+      lastModified: note.modifiedon ? new Date(note.modifiedon) : new Date(),
+      metadata: { subject: note.subject, contentType: note.mimetype },
+    }));
+  };
+
+  const downloadVersion = (fileName: string, folderPath: string, versionId: string): Promise<IDownloadResult> => {
+    return downloadNote(fileName, versionId);
+  };
+
+  const restoreVersion = async (fileName: string, folderPath: string, versionId: string): Promise<IRestoreVersionResult> => {
+    try {
+      // A copy of the version becomes the most recent note, so the replaced file stays a version
+      const version = await retrieveNoteWithBody(versionId);
+      const created = await createNote(version.filename, version.mimetype, version.documentbody || '', parseNoteMetadata(version.notetext));
+
+      return { fileName: version.filename || fileName, versionId, success: true, flowRunId: created.id };
+    } catch (error) {
+      console.error(`Error restoring note ${versionId} of ${fileName}:`, error);
+      return {
+        fileName,
+        versionId,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  return {
+    name: 'dataversenotes',
+    isConfigured,
+    listFiles,
+    // Versions of a file may span pages, so versioning mode lists the notes at once
+    listFilesPage: config.versioning ? undefined : listFilesPage,
+    uploadFile,
+    deleteFile,
+    downloadFile,
+    renameFile,
+    listVersions: config.versioning ? listVersions : undefined,
+    downloadVersion: config.versioning ? downloadVersion : undefined,
+    restoreVersion: config.versioning ? restoreVersion : undefined,
+  };
+};
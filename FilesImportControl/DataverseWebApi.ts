@@ -0,0 +1,96 @@
+/**
+ * DataverseWebApi.ts
+ *
+ * Helpers shared by the Dataverse storage providers. CRUD goes through
+ * context.webAPI; the file messages and column $value endpoints it does not
+ * cover are called on the Web API endpoint of the hosting environment.
+ */
+
+/** Web API endpoint, relative to the environment the app runs in */
+export const WEB_API_PATH = '/api/data/v9.2/';
+
+/**
+ * Escapes a value for use inside a quoted OData string literal
+ * @param value - Value to escape
+ * @returns Escaped and URI encoded value
+ */
+export const escapeODataString = (value: string): string => {
+  return encodeURIComponent(value.replace(/'/g, "''"));
+};
+
+/**
+ * Removes the braces Dataverse sometimes wraps around GUIDs
+ * @param id - Record ID
+ * @returns Record ID without braces
+ */
+export const normalizeRecordId = (id: string): string => {
+  return id.replace(/[{}]/g, '').toLowerCase();
+};
+
+/**
+ * Creates a cached resolver for the entity set name of a table. Lookups and Web API
+ * URLs use the entity set name, which only the table metadata knows.
+ * @param utils - Utility API of the control context
+ * @param entityLogicalName - Logical name of the table
+ * @returns Function resolving to the entity set name; failures are not cached
+ */
+export const createEntitySetNameResolver = (
+  utils: ComponentFramework.Utility,
+  entityLogicalName: string
+): (() => Promise<string>) => {
+  let entitySetName: Promise<string> | null = null;
+
+  return () => {
+    if (!entitySetName) {
+      entitySetName = utils
+        .getEntityMetadata(entityLogicalName)
+        .then(metadata => metadata.EntitySetName as string);
+      entitySetName.catch(() => {
+        entitySetName = null;
+      });
+    }
+    return entitySetName;
+  };
+};
+
+/**
+ * Sends a request to the Dataverse Web API
+ * @param method - HTTP method
+ * @param path - Path relative to the Web API endpoint
+ * @param body - Optional JSON body
+ * @param signal - Optional signal that aborts the request
+ * @returns Promise resolving to the successful response
+ */
+export const sendWebApiRequest = async (
+  method: string,
+  path: string,
+  body?: unknown,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const response = await fetch(`${WEB_API_PATH}${path}`, {
+    method,
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json; charset=utf-8',
+      'OData-MaxVersion': '4.0',
+      'OData-Version': '4.0',
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    credentials: 'same-origin',
+    signal,
+  });
+
+  if (!response.ok) {
+    // Dataverse errors carry their message in { error: { message } }
+    let message = `Web API request failed: ${response.status} ${response.statusText}`;
+    try {
+      const result = await response.json();
+      message = result?.error?.message || message;
+    } catch (parseError) {
+      // Keep the status message when the body is not JSON
+    }
+    throw new Error(message);
+  }
+
+  return response;
+};
@@ -0,0 +1,250 @@
+/**
+ * DeviceCapture.ts
+ *
+ * Files taken with the camera or microphone, or selected with the native file
+ * picker, through the device API of the control context. The device returns
+ * FileObjects with Base64 content, which are converted to File objects so they go
+ * through the same validation and upload path as files selected in the browser.
+ * A scanned barcode can name these files from a pattern, and uploads can carry
+ * capture metadata: the device position, the time and the current user.
+ */
+
+import { base64ToBlob } from "./StorageProvider";
+
+/**
+ * What a capture button records
+ */
+export type DeviceCaptureKind = 'image' | 'video' | 'audio';
+
+/** Camera settings of a photo; the quality is a percentage */
+const CAPTURE_IMAGE_OPTIONS: ComponentFramework.DeviceApi.CaptureImageOptions = {
+  allowEdit: false,
+  height: 1920,
+  width: 1920,
+  preferFrontCamera: false,
+  quality: 90,
+};
+
+/** Time allowed to read the device position before uploading without it */
+const POSITION_TIMEOUT_MS = 10000;
+
+/**
+ * Capture metadata read back from the metadata of an existing file
+ */
+export interface ICaptureMetadata {
+  latitude?: number;
+  longitude?: number;
+  /** Accuracy of the position, in meters */
+  accuracy?: number;
+  capturedOn?: Date;
+  /** Name of the user who uploaded the file */
+  capturedBy?: string;
+}
+
+/** Prefix of the name given to captured files, followed by the capture time */
+const CAPTURE_FILE_NAME_PREFIXES: Record<DeviceCaptureKind, string> = {
+  image: 'Photo',
+  video: 'Video',
+  audio: 'Audio',
+};
+
+/** Extension of captured files the device returns without one */
+const CAPTURE_DEFAULT_EXTENSIONS: Record<DeviceCaptureKind, string> = {
+  image: 'jpg',
+  video: 'mp4',
+  audio: 'm4a',
+};
+
+/**
+ * Formats the date and time parts of file names, as yyyy-MM-dd and HH-mm-ss
+ * @param value - Date and time to format
+ * @returns Date and time parts
+ */
+const formatFileNameDateTime = (value: Date): { date: string; time: string } => {
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return {
+    date: `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`,
+    time: `${pad(value.getHours())}-${pad(value.getMinutes())}-${pad(value.getSeconds())}`,
+  };
+};
+
+/**
+ * Whether the device API can capture files. The camera, microphone and native
+ * file picker are only available in the Power Apps mobile player.
+ * @param context - Context of the control
+ * @returns True when running in the mobile player
+ */
+export const isDeviceCaptureAvailable = (context: ComponentFramework.Context<any>): boolean => {
+  return !!context.device && context.client?.getClient() === 'Mobile';
+};
+
+/**
+ * Converts a FileObject returned by the device API to a File
+ * @param fileObject - File returned by the device
+ * @param fileName - Name of the File, the name returned by the device by default
+ * @returns File with the decoded content
+ */
+export const fileObjectToFile = (fileObject: ComponentFramework.FileObject, fileName: string = fileObject.fileName): File => {
+  // Some clients return the content as data URL rather than plain Base64
+  const content = (fileObject.fileContent || '').replace(/^data:[^,]*,/, '');
+  const contentType = fileObject.mimeType || 'application/octet-stream';
+  return new File([base64ToBlob(content, contentType)], fileName, { type: contentType, lastModified: Date.now() });
+};
+
+/**
+ * Builds the name of a captured file from the capture time, such as
+ * "Photo_2024-05-31_14-05-09.jpg". Devices return the same name for every
+ * capture, which would make captures replace each other.
+ * @param kind - What was captured
+ * @param fileObject - File returned by the device, whose extension is kept
+ * @param capturedOn - Capture time
+ * @returns File name of the capture
+ */
+export const getCaptureFileName = (kind: DeviceCaptureKind, fileObject: ComponentFramework.FileObject, capturedOn: Date = new Date()): string => {
+  const dotIndex = (fileObject.fileName || '').lastIndexOf('.');
+  const extension = dotIndex > 0 ? fileObject.fileName.substring(dotIndex + 1) : CAPTURE_DEFAULT_EXTENSIONS[kind];
+  const { date, time } = formatFileNameDateTime(capturedOn);
+  return `${CAPTURE_FILE_NAME_PREFIXES[kind]}_${date}_${time}.${extension}`;
+};
+
+/**
+ * Takes a photo, records a video or records audio with the device
+ * @param device - Device API of the control context
+ * @param kind - What to capture
+ * @returns Promise resolving to the captured file, or null when the user cancelled
+ */
+export const captureDeviceFile = async (device: ComponentFramework.Device, kind: DeviceCaptureKind): Promise<File | null> => {
+  const fileObject = kind === 'image'
+    ? await device.captureImage(CAPTURE_IMAGE_OPTIONS)
+    : kind === 'video'
+    ? await device.captureVideo()
+    : await device.captureAudio();
+  return fileObject?.fileContent ? fileObjectToFile(fileObject, getCaptureFileName(kind, fileObject)) : null;
+};
+
+/**
+ * Selects files with the native file picker of the device
+ * @param device - Device API of the control context
+ * @param allowMultipleFiles - Whether several files can be selected
+ * @param maximumAllowedFileSize - Largest file size allowed, in bytes
+ * @returns Promise resolving to the selected files, empty when the user cancelled
+ */
+export const pickDeviceFiles = async (device: ComponentFramework.Device, allowMultipleFiles: boolean, maximumAllowedFileSize: number): Promise<File[]> => {
+  // accept can only narrow the picker to audio, video or images, so it is left out;
+  // the allowed file types are checked by the validation of the selected files
+  const fileObjects = await device.pickFile({ allowMultipleFiles, maximumAllowedFileSize } as ComponentFramework.DeviceApi.PickFileOptions);
+  return (fileObjects || []).filter(fileObject => !!fileObject?.fileContent).map(fileObject => fileObjectToFile(fileObject));
+};
+
+/**
+ * Makes a scanned barcode usable in file and folder names, replacing the
+ * characters storages reject
+ * @param barcode - Scanned barcode value
+ * @returns Barcode without path separators, reserved characters or whitespace
+ */
+export const sanitizeBarcode = (barcode: string): string => {
+  return barcode.trim().replace(/[\\/:*?"<>|\s]+/g, '_');
+};
+
+/**
+ * Names a file from a pattern such as "{barcode}_{date}.jpg". The pattern
+ * supports {barcode}, {date} (yyyy-MM-dd), {time} (HH-mm-ss) and {name} (the
+ * original name without extension). The file keeps its own extension, which
+ * replaces the extension written in the pattern.
+ * @param pattern - File name pattern
+ * @param barcode - Scanned barcode value
+ * @param originalName - Name of the captured or selected file
+ * @param namedOn - Date and time used by {date} and {time}
+ * @param copy - Number appended when the name is already taken, from 2
+ * @returns File name built from the pattern
+ */
+export const formatBarcodeFileName = (pattern: string, barcode: string, originalName: string, namedOn: Date = new Date(), copy?: number): string => {
+  const dotIndex = originalName.lastIndexOf('.');
+  const values: Record<string, string> = {
+    ...formatFileNameDateTime(namedOn),
+    barcode: sanitizeBarcode(barcode),
+    name: dotIndex > 0 ? originalName.substring(0, dotIndex) : originalName,
+  };
+
+  // The extension of the pattern is only its literal end, never part of a placeholder value
+  const patternExtension = pattern.match(/\.[A-Za-z0-9]+$/);
+  const baseName = (patternExtension ? pattern.substring(0, pattern.length - patternExtension[0].length) : pattern)
+    .replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key.toLowerCase()] ?? placeholder)
+    .replace(/[\\/:*?"<>|]+/g, '_');
+  const extension = dotIndex > 0 ? originalName.substring(dotIndex) : patternExtension ? patternExtension[0] : '';
+  return `${baseName}${copy ? `_${copy}` : ''}${extension}`;
+};
+
+/**
+ * Collects the capture metadata sent with uploads: the device position and its
+ * accuracy, the time and the current user. The position is left out when it
+ * cannot be read in time, for example when location access was denied.
+ * Values are URI encoded, since blob metadata only accepts ASCII and user names may not be.
+ * @param context - Context of the control
+ * @returns Promise resolving to the metadata, with URI encoded string values
+ */
+export const getCaptureMetadata = async (context: ComponentFramework.Context<any>): Promise<Record<string, string>> => {
+  const metadata: Record<string, string> = {
+    capturedOn: new Date().toISOString(),
+    capturedBy: context.userSettings?.userName || '',
+    capturedById: context.userSettings?.userId || '',
+  };
+
+  if (context.device) {
+    try {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const position = await Promise.race([
+        context.device.getCurrentPosition(),
+        new Promise<never>((resolve, reject) => {
+          timer = setTimeout(() => reject(new Error('The device position was not returned in time')), POSITION_TIMEOUT_MS);
+        }),
+      ]).finally(() => clearTimeout(timer));
+      metadata.latitude = String(position.coords.latitude);
+      metadata.longitude = String(position.coords.longitude);
+      metadata.accuracy = String(Math.round(position.coords.accuracy));
+      if (position.timestamp) {
+        // Clients return the timestamp as Date or as milliseconds
+        metadata.capturedOn = new Date(position.timestamp as Date | number).toISOString();
+      }
+    } catch (error) {
+      console.warn('The device position could not be read:', error);
+    }
+  }
+  return Object.fromEntries(Object.entries(metadata).map(([key, value]) => [key, encodeURIComponent(value)]));
+};
+
+/**
+ * Reads the capture metadata of an existing file. Storages such as blob metadata
+ * may change the case of the names, so they are matched case-insensitively, and
+ * values are URI decoded; values that do not decode are read as they are.
+ * @param metadata - Metadata returned by the storage
+ * @returns Capture metadata, or null when the file has none
+ */
+export const readCaptureMetadata = (metadata?: Record<string, any>): ICaptureMetadata | null => {
+  if (!metadata) {
+    return null;
+  }
+  const values: Record<string, any> = {};
+  Object.keys(metadata).forEach(key => {
+    let value = metadata[key];
+    if (typeof value === 'string') {
+      try {
+        value = decodeURIComponent(value);
+      } catch (error) {
+        // Not URI encoded, e.g. a "%" written by another client, so it is kept as it is
+      }
+    }
+    values[key.toLowerCase()] = value;
+  });
+
+  const toNumber = (value: any) => value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : undefined;
+  const capturedOn = values.capturedon ? new Date(values.capturedon) : undefined;
+  const captureMetadata: ICaptureMetadata = {
+    latitude: toNumber(values.latitude),
+    longitude: toNumber(values.longitude),
+    accuracy: toNumber(values.accuracy),
+    capturedOn: capturedOn && !isNaN(capturedOn.getTime()) ? capturedOn : undefined,
+    capturedBy: values.capturedby || undefined,
+  };
+  return captureMetadata.latitude !== undefined || captureMetadata.capturedOn || captureMetadata.capturedBy ? captureMetadata : null;
+};
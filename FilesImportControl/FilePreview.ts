@@ -0,0 +1,110 @@
+/**
+ * FilePreview.ts
+ *
+ * Helpers of the in-control preview of existing files: which files can be
+ * previewed and how, and parsing of CSV content into table rows.
+ */
+
+/**
+ * How a file is rendered in the preview dialog
+ */
+export type PreviewKind = 'image' | 'pdf' | 'text' | 'json' | 'csv';
+
+/** Text content shown in the preview is cut after this many characters */
+export const PREVIEW_TEXT_LIMIT = 1024 * 1024;
+
+/** CSV previews show at most this many rows */
+export const PREVIEW_CSV_ROW_LIMIT = 500;
+
+/** Preview kinds by file extension */
+const PREVIEW_KINDS_BY_EXTENSION: Record<string, PreviewKind> = {
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  gif: 'image',
+  bmp: 'image',
+  webp: 'image',
+  svg: 'image',
+  pdf: 'pdf',
+  txt: 'text',
+  log: 'text',
+  md: 'text',
+  xml: 'text',
+  json: 'json',
+  csv: 'csv',
+};
+
+/**
+ * Finds how a file can be previewed, from its extension or else its content type
+ * @param fileName - Name of the file
+ * @param contentType - Optional MIME type reported by the storage
+ * @returns Preview kind, or null when the file cannot be previewed
+ */
+export const getPreviewKind = (fileName: string, contentType?: string): PreviewKind | null => {
+  const dotIndex = fileName.lastIndexOf('.');
+  const extension = dotIndex > 0 ? fileName.substring(dotIndex + 1).toLowerCase() : '';
+  if (PREVIEW_KINDS_BY_EXTENSION[extension]) {
+    return PREVIEW_KINDS_BY_EXTENSION[extension];
+  }
+
+  const type = (contentType || '').toLowerCase();
+  if (type.startsWith('image/')) return 'image';
+  if (type === 'application/pdf') return 'pdf';
+  if (type === 'application/json') return 'json';
+  if (type === 'text/csv') return 'csv';
+  if (type.startsWith('text/')) return 'text';
+  return null;
+};
+
+/**
+ * Parses CSV content into rows of cells. Quoted cells may contain separators,
+ * doubled quotes and line breaks.
+ * @param content - CSV content
+ * @param maxRows - Maximum number of rows returned
+ * @returns Rows of cells
+ */
+export const parseCsv = (content: string, maxRows: number = PREVIEW_CSV_ROW_LIMIT): string[][] => {
+  // Files saved by Excel in some locales separate cells with semicolons
+  const firstLine = content.substring(0, content.indexOf('\n') >= 0 ? content.indexOf('\n') : content.length);
+  const separator = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length && rows.length < maxRows; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if ((cell || row.length > 0) && rows.length < maxRows) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
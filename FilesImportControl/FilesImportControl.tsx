@@ -1,22 +1,44 @@
 import * as React from "react";
 import { useState, createRef } from "react";
-import { Caption1, Button, CompoundButton, Spinner, FluentProvider, Theme, webLightTheme, ProgressBar, Text, Body1, Caption2, Skeleton, SkeletonItem } from "@fluentui/react-components";
-import { CheckmarkFilled, DismissRegular, CheckmarkCircleFilled, ErrorCircleFilled, DeleteRegular, EyeRegular, CheckmarkRegular } from "@fluentui/react-icons";
-import { getIcon } from "./iconsMapping";
+import { Caption1, Button, CompoundButton, Spinner, FluentProvider, Theme, webLightTheme, ProgressBar, Text, Body1, Caption2, Skeleton, SkeletonItem, Dialog, DialogSurface, DialogBody, DialogTitle, DialogContent, DialogActions, RadioGroup, Radio, Popover, PopoverTrigger, PopoverSurface, Input, Breadcrumb, BreadcrumbItem, BreadcrumbButton, BreadcrumbDivider, Checkbox, Dropdown, Option, ToggleButton, Toaster, Toast, ToastTitle, Link, useId, useToastController, Menu, MenuTrigger, MenuPopover, MenuList, MenuItem } from "@fluentui/react-components";
+import { CheckmarkFilled, DismissRegular, CheckmarkCircleFilled, ErrorCircleFilled, DeleteRegular, EyeRegular, CheckmarkRegular, DismissCircleRegular, DismissCircleFilled, CloudOffFilled, SubtractCircleFilled, HistoryRegular, ArrowDownloadRegular, ArrowUndoRegular, RenameRegular, FolderRegular, FolderAddRegular, ArrowMoveRegular, CopyRegular, FolderZipRegular, SearchRegular, ArrowSortUpRegular, ArrowSortDownRegular, BinRecycleRegular, DocumentSearchRegular, ChevronLeftRegular, ChevronRightRegular, GridRegular, TextBulletListLtrRegular, CameraRegular, VideoRegular, MicRegular, BarcodeScannerRegular, LocationRegular, MoreHorizontalRegular } from "@fluentui/react-icons";
+import { getIcon, getFileTypeIconComponent } from "./iconsMapping";
 import { ButtonLoadingStateEnum } from "./utils";
 import { getButtonAppearance, getButtonIconPosition, getButtonShape, getButtonSize, getButtonStyle, getDisplayMode,} from "./utils";
 import { 
   TransferProgressEvent, 
-  IUploadResult} from "./PowerAutomateCloudFlows";
+  IUploadResult,
+  IStorageProvider,
+  IExistingFile,
+  IListFilesPage,
+  IDeletedFile,
+  IRestoreDeletedFileResult,
+  IDownloadResult,
+  IFileVersion,
+  ConflictAction,
+  runWithConcurrencyLimit,
+  base64ToBlob} from "./StorageProvider";
+import { createZipArchiveBuilder } from "./ZipArchive";
+import { PreviewKind, PREVIEW_TEXT_LIMIT, getPreviewKind, parseCsv } from "./FilePreview";
+import { THUMBNAIL_SOURCE_SIZE_LIMIT, getThumbnailCacheKey, getCachedThumbnail, loadCachedThumbnail, getFileThumbnail, loadFileThumbnail } from "./Thumbnails";
+import { DeviceCaptureKind, isDeviceCaptureAvailable, captureDeviceFile, pickDeviceFiles, sanitizeBarcode, formatBarcodeFileName, getCaptureMetadata, readCaptureMetadata } from "./DeviceCapture";
+import { IQueuedUpload, enqueueUpload, getQueuedUploads, removeQueuedUpload, getQueuedUploadId } from "./OfflineUploadQueue";
 
 // File upload state with progress tracking
 export interface IFileState {
   file: File;
   progress: number;
-  status: 'pending' | 'uploading' | 'completed' | 'failed' | 'invalid';
+  status: 'pending' | 'uploading' | 'completed' | 'failed' | 'invalid' | 'cancelled' | 'queued' | 'skipped';
+  bytesUploaded?: number; // Bytes actually sent
+  bytesPerSecond?: number; // Average throughput of the running transfer
+  secondsRemaining?: number; // Estimated from the throughput
+  attempts?: number; // Upload attempts made, including retries
   url?: string;
   error?: string;
   isValid?: boolean;
+  targetFolder?: string; // Subfolder of the folder shown that the file is uploaded to
+  folderPath?: string; // Folder path of a file restored from the offline queue, when not the folder shown
+  queuedUploadId?: string; // Key of the offline queue entry of a queued file
 }
 
 // State for files already in Azure storage
@@ -25,9 +47,40 @@ export interface IExistingFileState {
   size: number;
   url: string;
   lastModified: Date;
+  metadata?: Record<string, any>; // Additional metadata returned by the storage
   isExisting: true; // Distinguishes from new files
 }
 
+// Sort order of the existing files list
+export interface IExistingFilesSort {
+  field: 'name' | 'size' | 'lastModified';
+  direction: 'asc' | 'desc';
+}
+
+// Date range filters of the existing files list, in days back from now
+const EXISTING_FILES_DATE_RANGES: { key: string; days: number; label: string }[] = [
+  { key: 'LastWeek', days: 7, label: 'Last 7 days' },
+  { key: 'LastMonth', days: 30, label: 'Last 30 days' },
+  { key: 'LastYear', days: 365, label: 'Last year' }
+];
+
+// Height of an existing file row in list view. Rows never grow beyond it, so the rows outside
+// the rendered window can be sized from their count.
+const EXISTING_FILE_ROW_HEIGHT = 64;
+// Rows rendered above and below the visible part of the existing files list
+const EXISTING_FILE_ROWS_OVERSCAN = 10;
+// Distance from the end of the list (in pixels) at which the next page is loaded
+const LOAD_MORE_THRESHOLD = 200;
+// Size of a file tile in grid view including the gap between tiles, used to lay out and window the tiles
+const FILE_TILE_WIDTH = 140;
+const FILE_TILE_HEIGHT = 176;
+const FILE_TILE_GAP = 12;
+// Thumbnails of existing images downloaded at the same time
+const THUMBNAIL_CONCURRENCY = 3;
+
+// How long the Undo toast stays after a soft delete (in milliseconds)
+const UNDO_TOAST_TIMEOUT = 8000;
+
 // Admin configuration state for runtime property changes
 export interface IAdminConfig {
   maxTotalFileSizeMB: number;
@@ -55,14 +108,19 @@ export interface IFilesImportControlProps {
   buttonAllowDropFiles: boolean;
   buttonAllowDropFilesText: string;
   maxTotalFileSizeMB: number;
-  // Cloud Flow Configuration Properties
-  cloudFlowUploadUrl?: string | null;
-  cloudFlowListFilesUrl?: string | null;
-  cloudFlowDeleteUrl?: string | null;
-  cloudFlowDownloadUrl?: string | null;
-  containerPath?: string | null;
+  enableDeviceCapture?: boolean; // Capture buttons and native file picker in the mobile player
+  barcodeFileNamePattern?: string | null; // Names files after a scanned barcode, such as "{barcode}_{date}.jpg"
+  barcodeSubfolder?: boolean; // Uploads files named after a barcode to a subfolder named after it
+  captureUploadMetadata?: boolean; // Sends the device position, time and user as metadata of every upload
+  // Storage Properties
+  storageProvider?: IStorageProvider | null;
+  maxConcurrentUploads?: number;
+  maxRetryAttempts?: number;
+  conflictBehavior?: ConflictAction | 'Prompt'; // Prompt asks the user for each conflicting file
   listFilesFolderName?: string | null;
   recordUid?: string | null;
+  listFilesPageSize?: number; // Existing files loaded per page; 0 loads the whole folder
+  existingFilesSort?: IExistingFilesSort | null; // Sort restored from the control state
   canvasAppCurrentTheme: Theme;
   context: ComponentFramework.Context<any>; // PCF Context for accessing localized resources
   onEvent: (event: any) => void;
@@ -89,13 +147,18 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
   buttonAllowDropFiles,
   buttonAllowDropFilesText,
   maxTotalFileSizeMB,
-  cloudFlowUploadUrl,
-  cloudFlowListFilesUrl,
-  cloudFlowDeleteUrl,
-  cloudFlowDownloadUrl,
-  containerPath,
+  enableDeviceCapture,
+  barcodeFileNamePattern,
+  barcodeSubfolder,
+  captureUploadMetadata,
+  storageProvider,
+  maxConcurrentUploads,
+  maxRetryAttempts,
+  conflictBehavior,
   listFilesFolderName,
   recordUid,
+  listFilesPageSize,
+  existingFilesSort: savedExistingFilesSort,
   canvasAppCurrentTheme,
   context,
   onEvent
@@ -166,6 +229,61 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
   const [deletingFiles, setDeletingFiles] = useState<{ [fileName: string]: boolean }>({});
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState<{ [fileName: string]: boolean }>({});
   const [cumulativeFilesJSON, setCumulativeFilesJSON] = useState<any[]>([]); // Cumulative list of all uploaded files
+  const [uploadBatch, setUploadBatch] = useState<string[]>([]); // Names of the files in the running upload
+  const [conflictPrompt, setConflictPrompt] = useState<{ [fileName: string]: ConflictAction } | null>(null); // Decisions of the open conflict dialog
+  const [fileVersions, setFileVersions] = useState<{ [fileName: string]: { versions: IFileVersion[]; loading: boolean; error?: string } }>({}); // Prior versions shown in the Versions flyout
+  const [versionActions, setVersionActions] = useState<{ [versionId: string]: 'downloading' | 'restoring' }>({});
+  const [currentFolder, setCurrentFolder] = useState<string>(''); // Subfolder shown, relative to the combined folder path
+  const [subfolders, setSubfolders] = useState<string[]>([]); // Subfolders of the folder shown
+  const [newFolder, setNewFolder] = useState<{ name: string; error?: string; saving?: boolean } | null>(null); // Folder being created
+  const [fileTransfers, setFileTransfers] = useState<{ [fileName: string]: { operation: 'Move' | 'Copy'; status: 'inProgress' | 'failed'; error?: string } }>({}); // Move/copy state of existing files
+  const [transferBatch, setTransferBatch] = useState<string[]>([]); // Names of the files in the running move/copy
+  const [transferDialog, setTransferDialog] = useState<{
+    fileNames: string[];
+    operation: 'Move' | 'Copy';
+    record: string;
+    loadedRecord: string;
+    folder: string;
+    folders: string[];
+    targetFileNames: string[];
+    loading: boolean;
+    error?: string;
+  } | null>(null); // Folder picker of a move or copy
+  const [selectedExistingFiles, setSelectedExistingFiles] = useState<string[]>([]); // Existing files selected for bulk actions
+  const [showBulkDeleteConfirmation, setShowBulkDeleteConfirmation] = useState<boolean>(false);
+  const [bulkActionErrors, setBulkActionErrors] = useState<{ [fileName: string]: string }>({}); // Per-file errors of the last bulk action
+  const [archiveDownload, setArchiveDownload] = useState<{ completedFiles: number; totalFiles: number } | null>(null); // Progress of a ZIP download
+  const [recycleBin, setRecycleBin] = useState<{
+    files: IDeletedFile[];
+    loading: boolean;
+    error?: string;
+    restoring: { [deletedId: string]: boolean };
+    errors: { [deletedId: string]: string };
+  } | null>(null); // Recently deleted view of the folder shown
+  const [preview, setPreview] = useState<{
+    fileName: string;
+    kind: PreviewKind | null;
+    loading: boolean;
+    error?: string;
+    result?: IDownloadResult;
+    objectUrl?: string; // Blob URL of an image or PDF
+    text?: string; // Content of a text or JSON file
+    rows?: string[][]; // Cells of a CSV file
+    truncated?: boolean;
+  } | null>(null); // Preview dialog of an existing file
+  const [existingFilesContinuationToken, setExistingFilesContinuationToken] = useState<string | null>(null); // Token of the next page of existing files
+  const [loadingMoreExistingFiles, setLoadingMoreExistingFiles] = useState<boolean>(false);
+  const [fileListViewport, setFileListViewport] = useState<{ scrollTop: number; height: number }>({ scrollTop: 0, height: 500 }); // Scrolled part of the file list
+  const [existingFilesSearch, setExistingFilesSearch] = useState<string>(''); // Name search of the existing files list
+  const [existingFilesSort, setExistingFilesSort] = useState<IExistingFilesSort | null>(savedExistingFilesSort || null); // null keeps the storage order
+  const [existingFilesTypeFilter, setExistingFilesTypeFilter] = useState<string[]>([]); // File extensions shown, all when empty
+  const [existingFilesDateRange, setExistingFilesDateRange] = useState<number | null>(null); // Days back from now, all when null
+  const [renamingFile, setRenamingFile] = useState<{ fileName: string; newFileName: string; error?: string; saving?: boolean } | null>(null); // Inline rename of an existing file
+  const [fileViewMode, setFileViewMode] = useState<'list' | 'grid'>('list'); // Rows or thumbnail tiles
+  const [, setThumbnailsLoaded] = useState<number>(0); // Counts created thumbnails, so the grid shows them
+  const [capturingKind, setCapturingKind] = useState<DeviceCaptureKind | null>(null); // Device capture in progress
+  const [scannedBarcode, setScannedBarcode] = useState<string | null>(null); // Names the files added until cleared
+  const [scanningBarcode, setScanningBarcode] = useState<boolean>(false);
   
   // Admin configuration state for runtime property changes
   const [adminConfig, setAdminConfig] = useState<IAdminConfig>(() => {
@@ -247,29 +365,55 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
   
   const importFileRef = createRef<HTMLInputElement>();
 
-  // Check Cloud Flow configuration
-  const isCloudFlowConfigured = () => {
-    return recordUid && recordUid.trim() !== '' && cloudFlowDownloadUrl && cloudFlowUploadUrl && cloudFlowListFilesUrl && cloudFlowDeleteUrl && containerPath;
+  // Check storage configuration
+  const isStorageConfigured = (): boolean => {
+    return !!(recordUid && recordUid.trim() !== '' && storageProvider?.isConfigured());
   };
 
-  // Get combined folder path using ListFilesFolderName and RecordUid
-  const getCombinedFolderPath = () => {
-    if (!listFilesFolderName || !recordUid) {
-      return recordUid || listFilesFolderName || '';
-    }
-    return `${listFilesFolderName}/${recordUid}`;
+  // Get the folder path of a record's subfolder: ListFilesFolderName/<record>/<folder>
+  const getRecordFolderPath = (record: string, folder: string) => {
+    const basePath = !listFilesFolderName || !record
+      ? record || listFilesFolderName || ''
+      : `${listFilesFolderName}/${record}`;
+    return [basePath, folder].filter(Boolean).join('/');
+  };
+
+  // Get combined folder path using ListFilesFolderName and RecordUid, followed by the subfolder shown
+  const getCombinedFolderPath = (folder: string = currentFolder) => {
+    return getRecordFolderPath(recordUid || '', folder);
   };
 
-  // Check if download Cloud Flow is configured specifically
-  const isDownloadCloudFlowConfigured = () => {
-    return isCloudFlowConfigured() && cloudFlowDownloadUrl;
+  // Maximum upload attempts, shown while retrying transient failures
+  const getMaxRetryAttempts = () => {
+    return maxRetryAttempts && maxRetryAttempts > 0 ? maxRetryAttempts : 1;
   };
 
-  // Fetch existing files from Cloud Flow
-  const loadExistingFiles = async () => {
-    if (!isCloudFlowConfigured()) {
-      // Clear existing files when cloud flow is not configured (e.g., when recordUid is empty)
+  // Converts listed files to existing file states
+  const toExistingFileStates = (files: IExistingFile[]): IExistingFileState[] => {
+    return files.map(file => ({
+      name: file.name,
+      size: file.size,
+      url: file.url,
+      lastModified: new Date(file.lastModified),
+      metadata: file.metadata,
+      isExisting: true as const
+    }));
+  };
+
+  // Counts listings, so a page that arrives after the folder was reloaded is dropped
+  const existingFilesRequest = React.useRef(0);
+
+  // Fetch existing files and subfolders from the storage provider, the first page of
+  // them when the storage lists in pages
+  const loadExistingFiles = async (folderPath: string = getCombinedFolderPath()) => {
+    const request = ++existingFilesRequest.current;
+    setExistingFilesContinuationToken(null);
+    setLoadingMoreExistingFiles(false);
+
+    if (!isStorageConfigured()) {
+      // Clear existing files when storage is not configured (e.g., when recordUid is empty)
       setExistingFiles([]);
+      setSubfolders([]);
       setShowFileList(false);
       setIsInitialLoad(false);
       onEvent({ 
@@ -280,57 +424,19 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
 
     setLoadingExistingFiles(true);
     try {
-      // Create a simplified request payload
-      const combinedFolderPath = getCombinedFolderPath();
-      const requestPayload = {
-        containerPath: containerPath!,
-        folderName: combinedFolderPath
-      };
-
-      // Call the list files flow directly using fetch
-      const response = await fetch(cloudFlowListFilesUrl!, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestPayload)
-      });
-
-      // Parse the response regardless of status code to check for files array
-      let result;
-      try {
-        result = await response.json();
-      } catch (parseError) {
-        // If we can't parse JSON and response is not ok, throw the HTTP error
-        if (!response.ok) {
-          throw new Error(`List files failed: ${response.statusText}`);
-        }
-        throw new Error('Failed to parse response');
-      }
-      
-      // Check if we have a valid files array (even if empty)
-      const hasValidFilesArray = result.files && Array.isArray(result.files);
-      
-      // Only throw an error if:
-      // 1. Response is not ok AND there's no valid files array, OR
-      // 2. Success is false AND there's no valid files array
-      if ((!response.ok || !result.success) && !hasValidFilesArray) {
-        throw new Error(result.error || `List files failed: ${response.statusText}`);
-      }
-
-      // Handle files array - it may be empty if no files exist
-      const files = result.files || [];
-      const existingFileStates: IExistingFileState[] = files.map((file: any) => ({
-        name: file.name,
-        size: file.size,
-        url: file.url,
-        lastModified: new Date(file.lastModified),
-        isExisting: true as const
-      }));
+      // The files array may be empty if no files exist
+      const page: IListFilesPage = storageProvider!.listFilesPage && listFilesPageSize && listFilesPageSize > 0
+        ? await storageProvider!.listFilesPage(folderPath, listFilesPageSize)
+        : { entries: await storageProvider!.listFiles(folderPath) };
+      if (request !== existingFilesRequest.current) return;
+      const existingFileStates = toExistingFileStates(page.entries.filter(entry => !entry.isFolder));
+      const folders = page.entries.filter(entry => entry.isFolder).map(entry => entry.name);
 
       setExistingFiles(existingFileStates);
+      setSubfolders(folders);
+      setExistingFilesContinuationToken(page.continuationToken || null);
       
-      if (existingFileStates.length > 0) {
+      if (existingFileStates.length > 0 || folders.length > 0) {
         setShowFileList(true);
       } else if (isInitialLoad) {
         // Show file list with "no files" message for initial load even if no files exist
@@ -348,8 +454,81 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
         setShowFileList(true);
       }
     } finally {
-      setLoadingExistingFiles(false);
-      setIsInitialLoad(false);
+      if (request === existingFilesRequest.current) {
+        setLoadingExistingFiles(false);
+        setIsInitialLoad(false);
+      }
+    }
+  };
+
+  // Load the next page of existing files and subfolders, appended to the list
+  const loadMoreExistingFiles = async () => {
+    if (!existingFilesContinuationToken || loadingMoreExistingFiles || loadingExistingFiles || !isStorageConfigured() || !storageProvider!.listFilesPage) {
+      return;
+    }
+
+    const request = existingFilesRequest.current;
+    setLoadingMoreExistingFiles(true);
+    try {
+      const page = await storageProvider!.listFilesPage(getCombinedFolderPath(), listFilesPageSize!, existingFilesContinuationToken);
+      if (request !== existingFilesRequest.current) return;
+
+      const existingNames = new Set(existingFiles.map(file => file.name));
+      const newFileStates = toExistingFileStates(page.entries.filter(entry => !entry.isFolder && !existingNames.has(entry.name)));
+      const newFolders = page.entries.filter(entry => entry.isFolder && !subfolders.includes(entry.name)).map(entry => entry.name);
+      const existingFileStates = [...existingFiles, ...newFileStates];
+
+      setExistingFiles(existingFileStates);
+      setSubfolders(prev => [...prev, ...newFolders]);
+      setExistingFilesContinuationToken(page.continuationToken || null);
+
+      // Notify parent about existing files loaded so far
+      onEvent({ 
+        existingFiles: JSON.stringify(existingFileStates)
+      });
+    } catch (error) {
+      console.error('Error loading more existing files:', error);
+    } finally {
+      if (request === existingFilesRequest.current) {
+        setLoadingMoreExistingFiles(false);
+      }
+    }
+  };
+
+  // List every file of a folder as the storage holds it now, going through all pages
+  // when the storage lists in pages; rejects when the listing fails
+  const listAllExistingFiles = async (folderPath: string): Promise<IExistingFile[]> => {
+    if (!storageProvider!.listFilesPage || !listFilesPageSize || listFilesPageSize <= 0) {
+      return (await storageProvider!.listFiles(folderPath)).filter(entry => !entry.isFolder);
+    }
+
+    const files: IExistingFile[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await storageProvider!.listFilesPage!(folderPath, listFilesPageSize, continuationToken);
+      files.push(...page.entries.filter(entry => !entry.isFolder));
+      continuationToken = page.continuationToken;
+    } while (continuationToken);
+    return files;
+  };
+
+  // Names taken in a folder, checked against the storage rather than the pages loaded so far.
+  // When the folder cannot be listed, the loaded files of the folder shown are used.
+  const getTakenFileNames = async (folderPath: string): Promise<Set<string>> => {
+    try {
+      return new Set((await listAllExistingFiles(folderPath)).map(file => file.name));
+    } catch (error) {
+      console.warn(`Failed to list ${folderPath} to check file names:`, error);
+      return new Set(folderPath === getCombinedFolderPath() ? existingFiles.map(file => file.name) : []);
+    }
+  };
+
+  // Track the scrolled part of the file list, and load the next page near its end
+  const handleFileListScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = event.currentTarget;
+    setFileListViewport({ scrollTop, height: clientHeight });
+    if (scrollHeight - scrollTop - clientHeight < LOAD_MORE_THRESHOLD) {
+      loadMoreExistingFiles();
     }
   };
 
@@ -360,7 +539,10 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
       setIsInitialLoad(true);
     }
     
-    loadExistingFiles();
+    // Start again from the top folder of the new context
+    setCurrentFolder('');
+    setNewFolder(null);
+    loadExistingFiles(getCombinedFolderPath(''));
     // Reset all file states when context changes (different record, container, etc.)
     setFileStates([]);
     setSelectedFiles([]);
@@ -369,50 +551,74 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
     setShowDeleteConfirmation({});
     setDeletingFiles({});
     setViewingFiles({});
+    setFileVersions({});
+    setRenamingFile(null);
+    setFileTransfers({});
+    setTransferDialog(null);
+    setSelectedExistingFiles([]);
+    setShowBulkDeleteConfirmation(false);
+    setBulkActionErrors({});
+    setExistingFilesSearch('');
+    setExistingFilesTypeFilter([]);
+    setExistingFilesDateRange(null);
+    setRecycleBin(null);
+    setPreview(null);
     onEvent({ 
       filesJSON: JSON.stringify([]),
       contextChanged: true
     });
-  }, [cloudFlowListFilesUrl, containerPath, listFilesFolderName, recordUid]);
+  }, [storageProvider, listFilesFolderName, recordUid]);
 
-  // Validate file type against allowed formats and total size limit
-  const validateFileType = (file: File, existingFiles: File[] = []): { isValid: boolean; error?: string } => {
+  // Check a file name and MIME type against the allowed formats
+  const getFileTypeError = (name: string, type: string): string | undefined => {
     const config = getCurrentConfig();
     
-    // First check file type restrictions
     if (!config.allowedFileTypes || config.allowedFileTypes.trim() === '' || config.allowedFileTypes.trim() === '*') {
-      // No file type restrictions, continue to size check
-    } else {
-      // Parse allowed file types (semicolon/comma separated)
-      const allowedTypes = config.allowedFileTypes
-        .split(/[;,]/) // Support both semicolon and comma separators
-        .map(type => type.trim().toLowerCase())
-        .filter(type => type !== '' && type !== '*');
-
-      if (allowedTypes.length > 0) {
-        const fileName = file.name.toLowerCase();
-        const fileType = file.type.toLowerCase();
-        const fileExtension = fileName.substring(fileName.lastIndexOf('.'));
-
-        // Check MIME types and extensions
-        const isValidType = allowedTypes.some(allowedType => {
-          // Check MIME type
-          if (allowedType.includes('/')) {
-            return fileType === allowedType || fileType.startsWith(allowedType.replace('*', ''));
-          }
-          // Check extension (with or without dot)
-          const normalizedAllowedType = allowedType.startsWith('.') ? allowedType : `.${allowedType}`;
-          return fileExtension === normalizedAllowedType;
-        });
+      // No file type restrictions
+      return undefined;
+    }
+
+    // Parse allowed file types (semicolon/comma separated)
+    const allowedTypes = config.allowedFileTypes
+      .split(/[;,]/) // Support both semicolon and comma separators
+      .map(allowedType => allowedType.trim().toLowerCase())
+      .filter(allowedType => allowedType !== '' && allowedType !== '*');
 
-        if (!isValidType) {
-          return {
-            isValid: false,
-            error: `File type not allowed. Allowed: ${config.allowedFileTypes}`
-          };
+    if (allowedTypes.length > 0) {
+      const fileName = name.toLowerCase();
+      const fileType = type.toLowerCase();
+      const fileExtension = fileName.substring(fileName.lastIndexOf('.'));
+
+      // Check MIME types and extensions
+      const isValidType = allowedTypes.some(allowedType => {
+        // Check MIME type
+        if (allowedType.includes('/')) {
+          return fileType === allowedType || fileType.startsWith(allowedType.replace('*', ''));
         }
+        // Check extension (with or without dot)
+        const normalizedAllowedType = allowedType.startsWith('.') ? allowedType : `.${allowedType}`;
+        return fileExtension === normalizedAllowedType;
+      });
+
+      if (!isValidType) {
+        return `File type not allowed. Allowed: ${config.allowedFileTypes}`;
       }
     }
+    return undefined;
+  };
+
+  // Validate file type against allowed formats and total size limit
+  const validateFileType = (file: File, existingFiles: File[] = []): { isValid: boolean; error?: string } => {
+    const config = getCurrentConfig();
+    
+    // First check file type restrictions
+    const fileTypeError = getFileTypeError(file.name, file.type);
+    if (fileTypeError) {
+      return {
+        isValid: false,
+        error: fileTypeError
+      };
+    }
 
     // Check total file size limit
     if (config.maxTotalFileSizeMB && config.maxTotalFileSizeMB > 0) {
@@ -438,8 +644,38 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
     return { isValid: true };
   };
 
+  // Subfolders of the folder shown that pending files are routed to, read when they upload.
+  // Keyed by File, since files of the same name may be queued for different folders.
+  const uploadTargetFolders = React.useRef(new WeakMap<File, string>());
+
+  // Folder paths that files queued offline were meant for, kept when another folder is shown
+  const uploadFolderPaths = React.useRef(new WeakMap<File, string>());
+
+  // Folder path a pending file uploads to, before the subfolder it may be routed to
+  const getUploadFolderPath = (file: File) => {
+    return uploadFolderPaths.current.get(file) ?? getCombinedFolderPath();
+  };
+
+  // Name files after the scanned barcode; names already pending get a copy number
+  const nameFilesFromBarcode = (files: File[]): File[] => {
+    if (!scannedBarcode || !barcodeFileNamePattern) return files;
+
+    const namedOn = new Date();
+    const takenNames = new Set(fileStates.map(fs => fs.file.name));
+    return files.map(file => {
+      let fileName = formatBarcodeFileName(barcodeFileNamePattern, scannedBarcode, file.name, namedOn);
+      for (let copy = 2; takenNames.has(fileName); copy++) {
+        fileName = formatBarcodeFileName(barcodeFileNamePattern, scannedBarcode, file.name, namedOn, copy);
+      }
+      takenNames.add(fileName);
+      return new File([file], fileName, { type: file.type, lastModified: file.lastModified });
+    });
+  };
+
   // Add files to state with validation
-  const addFilesToState = (files: File[]) => {
+  const addFilesToState = (addedFiles: File[]) => {
+    const files = nameFilesFromBarcode(addedFiles);
+    const targetFolder = scannedBarcode && barcodeFileNamePattern && barcodeSubfolder ? sanitizeBarcode(scannedBarcode) : undefined;
     const newFileStates: IFileState[] = [];
     let currentBatchSize = 0;
     
@@ -448,6 +684,10 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
     const existingPendingSize = existingPendingFiles.reduce((sum, f) => sum + f.size, 0);
     
     for (const file of files) {
+      if (targetFolder) {
+        uploadTargetFolders.current.set(file, targetFolder);
+      }
+
       // For batch validation, include previously processed files in this batch
       const filesInCurrentBatch = newFileStates.filter(fs => fs.isValid).map(fs => fs.file);
       const validation = validateFileType(file, filesInCurrentBatch);
@@ -457,7 +697,8 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
         progress: 0,
         status: validation.isValid ? 'pending' as const : 'invalid' as const,
         isValid: validation.isValid,
-        error: validation.error
+        error: validation.error,
+        targetFolder
       });
       
       if (validation.isValid) {
@@ -470,15 +711,49 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
     setShowFileList(true);
   };
 
-  // Update specific file state
-  const updateFileState = (fileName: string, updates: Partial<IFileState>) => {
+  // Update specific file state; files are matched by identity, as names may repeat across folders
+  const updateFileState = (file: File, updates: Partial<IFileState>) => {
     setFileStates(prev => prev.map(fileState => 
-      fileState.file.name === fileName 
+      fileState.file === file 
         ? { ...fileState, ...updates }
         : fileState
     ));
   };
 
+  // Remove a file from the offline upload queue, under the folder path it was queued for
+  const removeFromOfflineQueue = (file: File) => {
+    if (!storageProvider) return;
+    removeQueuedUpload(getQueuedUploadId(storageProvider.name, getUploadFolderPath(file), file))
+      .catch(error => console.warn(`Failed to remove ${file.name} from the offline queue:`, error));
+  };
+
+  // Keep files that cannot be sent while offline; they are replayed once the browser is back online
+  const queueFilesOffline = async (files: File[]) => {
+    for (const file of files) {
+      const folderPath = getUploadFolderPath(file);
+      try {
+        const entry = await enqueueUpload(storageProvider!.name, folderPath, file, uploadTargetFolders.current.get(file));
+        uploadFolderPaths.current.set(file, folderPath);
+        updateFileState(file, {
+          queuedUploadId: entry.id,
+          status: 'queued',
+          progress: 0,
+          bytesUploaded: 0,
+          secondsRemaining: undefined,
+          error: undefined
+        });
+      } catch (error) {
+        console.error(`Failed to queue ${file.name} for offline upload:`, error);
+        updateFileState(file, {
+          status: 'failed',
+          progress: 0,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    onEvent({ queuedOffline: JSON.stringify(files.map(file => file.name)) });
+  };
+
   // Remove file from state (only pending/invalid files)
   const removeFile = (fileName: string) => {
     // Only allow removal of pending or invalid files
@@ -499,6 +774,11 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
       return newFileStates;
     });
     setSelectedFiles(prev => prev.filter(file => file.name !== fileName));
+
+    // A removed file must not be replayed from the offline queue
+    if (fileState?.status === 'queued') {
+      removeFromOfflineQueue(fileState.file);
+    }
     
     // Only manage cumulative JSON when RecordUid is empty
     if (!recordUid || recordUid.trim() === '') {
@@ -522,6 +802,8 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
 
   // Clear all new files (preserve existing files)
   const clearNewFiles = () => {
+    // Cleared files must not be replayed from the offline queue
+    fileStates.filter(fs => fs.status === 'queued').forEach(fs => removeFromOfflineQueue(fs.file));
     setFileStates([]);
     setSelectedFiles([]);
     setUploadProgress({});
@@ -545,58 +827,130 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
     }
   };
 
-  // Delete existing file from Cloud Flow
-  const handleDeleteExistingFile = async (fileName: string) => {
-    setDeletingFiles(prev => ({ ...prev, [fileName]: true }));
+  // Restore soft deleted files of a folder, reloading the list when the folder is still shown
+  const restoreDeletedFiles = async (deletedFiles: { fileName: string; deletedId: string }[], folderPath: string) => {
+    if (!isStorageConfigured() || !storageProvider!.restoreDeletedFile) {
+      return [];
+    }
 
-    try {
-      if (!isCloudFlowConfigured()) {
-        throw new Error('Cloud Flow configuration is missing');
+    const results: IRestoreDeletedFileResult[] = [];
+    for (const deletedFile of deletedFiles) {
+      results.push(await storageProvider!.restoreDeletedFile(deletedFile.fileName, folderPath, deletedFile.deletedId));
+    }
+
+    if (folderPath === getCombinedFolderPath()) {
+      await loadExistingFiles(folderPath);
+    }
+
+    // Notify parent about the restored files
+    onEvent({
+      filesRestored: JSON.stringify(results.filter(result => result.success).map(result => result.fileName)),
+      restoreResults: JSON.stringify(results.map(result => ({
+        name: result.fileName,
+        success: result.success,
+        error: result.error
+      })))
+    });
+    return results;
+  };
+
+  // Toasts outlive renders, so Undo calls the latest restore function
+  const restoreDeletedFilesRef = React.useRef(restoreDeletedFiles);
+  restoreDeletedFilesRef.current = restoreDeletedFiles;
+
+  const toasterId = useId('file-toaster');
+  const { dispatchToast, dismissToast } = useToastController(toasterId);
+
+  // Show the Undo toast of soft deleted files
+  const showUndoDeleteToast = (deletedFiles: { fileName: string; deletedId?: string }[], folderPath: string) => {
+    const restorableFiles = deletedFiles.filter((file): file is { fileName: string; deletedId: string } => !!file.deletedId);
+    if (restorableFiles.length === 0 || !storageProvider?.restoreDeletedFile) return;
+
+    const toastId = `undo-delete-${restorableFiles[0].deletedId}`;
+    const undoDelete = async () => {
+      dismissToast(toastId);
+      const results = await restoreDeletedFilesRef.current(restorableFiles, folderPath);
+      const failedResults = results.filter(result => !result.success);
+      if (failedResults.length > 0) {
+        alert(`Failed to restore file: ${failedResults.map(result => `${result.fileName}: ${result.error}`).join(', ')}`);
       }
+    };
+
+    dispatchToast(
+      <Toast>
+        <ToastTitle action={<Link onClick={undoDelete}>{getLocalizedString('Undo', 'Undo')}</Link>}>
+          {restorableFiles.length === 1
+            ? `${restorableFiles[0].fileName} ${getLocalizedString('FileDeleted', 'deleted')}`
+            : `${restorableFiles.length} ${getLocalizedString('FilesDeleted', 'files deleted')}`}
+        </ToastTitle>
+      </Toast>,
+      { toastId, intent: 'success', timeout: UNDO_TOAST_TIMEOUT }
+    );
+  };
+
+  // Show the soft deleted files of the folder shown
+  const openRecycleBin = async () => {
+    if (!isStorageConfigured() || !storageProvider!.listDeletedFiles) return;
+
+    setRecycleBin({ files: [], loading: true, restoring: {}, errors: {} });
+    try {
+      const files = await storageProvider!.listDeletedFiles(getCombinedFolderPath());
+      setRecycleBin(prev => prev && { ...prev, files, loading: false });
+    } catch (error) {
+      console.error('Error loading deleted files:', error);
+      setRecycleBin(prev => prev && { ...prev, loading: false, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
 
-      // Create request payload based on COCA postman collection
-      const combinedFolderPath = getCombinedFolderPath();
-      const requestPayload = {
-        fileName: fileName,
-        containerPath: containerPath!,
-        folderName: combinedFolderPath || undefined
+  // Restore a file from the Recently deleted view
+  const handleRestoreFromRecycleBin = async (deletedFile: IDeletedFile) => {
+    setRecycleBin(prev => prev && { ...prev, restoring: { ...prev.restoring, [deletedFile.deletedId]: true } });
+
+    const [result] = await restoreDeletedFiles([{ fileName: deletedFile.name, deletedId: deletedFile.deletedId }], getCombinedFolderPath());
+    setRecycleBin(prev => {
+      if (!prev) return prev;
+      const errors = { ...prev.errors };
+      delete errors[deletedFile.deletedId];
+      if (result && !result.success) {
+        errors[deletedFile.deletedId] = result.error || 'Failed to restore file';
+      }
+      return {
+        ...prev,
+        files: result?.success ? prev.files.filter(file => file.deletedId !== deletedFile.deletedId) : prev.files,
+        restoring: { ...prev.restoring, [deletedFile.deletedId]: false },
+        errors
       };
+    });
+  };
 
-      // Call the delete flow directly using fetch
-      const response = await fetch(cloudFlowDeleteUrl!, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestPayload)
-      });
+  // Delete existing file from the storage provider
+  // A failure is shown on its row, like the errors of bulk actions
+  const handleDeleteExistingFile = async (fileName: string) => {
+    setDeletingFiles(prev => ({ ...prev, [fileName]: true }));
+    setBulkActionErrors(prev => {
+      const newErrors = { ...prev };
+      delete newErrors[fileName];
+      return newErrors;
+    });
 
-      if (!response.ok) {
-        throw new Error(`Delete failed: ${response.statusText}`);
+    try {
+      if (!isStorageConfigured()) {
+        throw new Error('Storage configuration is missing');
       }
 
-      const result = await response.json();
-      
-      if (result.success) {
-        // Remove from UI state
-        setExistingFiles(prev => prev.filter(file => file.name !== fileName));
-        
-        // Refresh existing files list
-        await loadExistingFiles();
-        
-        // Notify parent about deletion
-        onEvent({
-          fileDeleted: fileName,
-          existingFiles: JSON.stringify(existingFiles.filter(file => file.name !== fileName))
-        });
-        
-        console.log(`File ${fileName} deleted successfully`);
-      } else {
+      const folderPath = getCombinedFolderPath();
+      const result = await storageProvider!.deleteFile(fileName, folderPath);
+      if (!result.success) {
         throw new Error(result.error || 'Failed to delete file');
       }
+
+      // Refreshing the list notifies the parent about the remaining existing files
+      await loadExistingFiles();
+      onEvent({ fileDeleted: fileName });
+      showUndoDeleteToast([{ fileName, deletedId: result.deletedId }], folderPath);
     } catch (error) {
       console.error('Error deleting file:', error);
-      alert(`Failed to delete file: ${error instanceof Error ? error.message : String(error)}`);
+      setBulkActionErrors(prev => ({ ...prev, [fileName]: error instanceof Error ? error.message : String(error) }));
     } finally {
       setDeletingFiles(prev => ({ ...prev, [fileName]: false }));
       setShowDeleteConfirmation(prev => ({ ...prev, [fileName]: false }));
@@ -618,10 +972,51 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
     await handleDeleteExistingFile(fileName);
   };
 
-  // Download existing file using the new download Cloud Flow
+  // Save the content of a download result, or open its URL, and notify the parent
+  const saveDownloadResult = (result: IDownloadResult, fileName: string, eventData: Record<string, any> = {}) => {
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to download file');
+    }
+
+    if (result.fileContent && result.contentType) {
+      // Create downloadable link using the base64 file content
+      const link = document.createElement('a');
+      link.href = `data:${result.contentType};base64,${result.fileContent}`;
+      link.download = result.fileName;
+      
+      // Trigger the download
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      
+      // Notify parent about download action
+      onEvent({
+        fileDownloaded: result.fileName,
+        fileSize: result.fileSize || 0,
+        contentType: result.contentType,
+        method: storageProvider!.name,
+        ...eventData
+      });
+      
+      console.log(`Downloaded file ${result.fileName} successfully`);
+    } else if (result.url) {
+      // Storages without content in the response return a URL to open instead
+      window.open(result.url, '_blank', 'noopener,noreferrer');
+      onEvent({
+        fileViewed: fileName,
+        viewUrl: result.url,
+        method: storageProvider!.name,
+        ...eventData
+      });
+    } else {
+      throw new Error('Failed to download file - missing file content in response');
+    }
+  };
+
+  // Download existing file through the storage provider
   const handleViewExistingFile = async (fileName: string) => {
-    // Fallback to direct URL if Cloud Flow not configured for download
-    if (!cloudFlowDownloadUrl) {
+    // Fallback to direct URL if no storage provider is configured
+    if (!isStorageConfigured()) {
       const existingFile = existingFiles.find(f => f.name === fileName);
       if (existingFile?.url) {
         window.open(existingFile.url, '_blank', 'noopener,noreferrer');
@@ -636,81 +1031,12 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
       return;
     }
 
-    if (!isDownloadCloudFlowConfigured()) {
-      alert('Cloud Flow configuration for download is missing');
-      return;
-    }
-
     // Set loading state for this specific file
     setViewingFiles(prev => ({ ...prev, [fileName]: true }));
 
     try {
-      // Create request payload based on the new download flow schema
-      const combinedFolderPath = getCombinedFolderPath();
-      const requestPayload = {
-        storageAccountName: containerPath!,
-        filePath: combinedFolderPath ? `${combinedFolderPath}/${fileName}` : fileName,
-        fileName: fileName
-      };
-
-      // Call the download flow directly using fetch
-      const response = await fetch(cloudFlowDownloadUrl!, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestPayload)
-      });
-
-      if (!response.ok) {
-        throw new Error(`Download file failed: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      
-      // Handle the response structure from the new download flow
-      let fileContent: string | null = null;
-      let contentType: string | null = null;
-      let downloadFileName: string | null = null;
-      
-      // Check different possible response structures
-      if (result.fileContent && result.contentType && result.fileName) {
-        // Direct response structure
-        fileContent = result.fileContent;
-        contentType = result.contentType;
-        downloadFileName = result.fileName;
-      } else if (result.body && result.body.fileContent && result.body.contentType && result.body.fileName) {
-        // Power Automate response with body wrapper
-        fileContent = result.body.fileContent;
-        contentType = result.body.contentType;
-        downloadFileName = result.body.fileName;
-      }
-      
-      if (fileContent && contentType && downloadFileName) {
-        // Create downloadable link using the base64 file content
-        const link = document.createElement('a');
-        link.href = `data:${contentType};base64,${fileContent}`;
-        link.download = downloadFileName;
-        
-        // Trigger the download
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        
-        // Notify parent about download action
-        onEvent({
-          fileDownloaded: downloadFileName,
-          fileSize: result.fileSize || result.body?.fileSize || 0,
-          contentType: contentType,
-          method: 'cloudflow'
-        });
-        
-        console.log(`Downloaded file ${downloadFileName} successfully`);
-      } else {
-        // Log the actual response structure for debugging
-        console.error('Unexpected response structure:', result);
-        throw new Error(result.error || result.body?.error || 'Failed to download file - missing file content in response');
-      }
+      const result = await storageProvider!.downloadFile(fileName, getCombinedFolderPath());
+      saveDownloadResult(result, fileName);
     } catch (error) {
       console.error('Error downloading file:', error);
       alert(`Failed to download file: ${error instanceof Error ? error.message : String(error)}`);
@@ -720,268 +1046,894 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
     }
   };
 
-  // Format bytes to readable size
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+  // Whether a file or folder name contains characters storages reject, or ends with a period
+  const hasInvalidNameCharacters = (name: string) => {
+    return /[\\/:*?"<>|\u0000-\u001f]/.test(name) || name.endsWith('.');
   };
 
-  // Calculate current total file size of pending/valid new files
-  const getCurrentTotalFileSize = (): number => {
-    const validPendingFiles = fileStates.filter(fs => fs.isValid && fs.status !== 'failed');
-    return validPendingFiles.reduce((total, fs) => total + fs.file.size, 0);
+  // Show another subfolder ('' is the top folder). New files stay selected and are
+  // uploaded into the folder shown; queued offline files stay with their own folder.
+  const navigateToFolder = (folder: string) => {
+    if (folder === currentFolder) return;
+
+    setCurrentFolder(folder);
+    setNewFolder(null);
+    setRenamingFile(null);
+    setFileVersions({});
+    setFileTransfers(prev => Object.fromEntries(Object.entries(prev).filter(([, transfer]) => transfer.status === 'inProgress')));
+    setShowDeleteConfirmation({});
+    setSelectedExistingFiles([]);
+    setShowBulkDeleteConfirmation(false);
+    setBulkActionErrors({});
+    setExistingFilesSearch('');
+    setExistingFilesTypeFilter([]);
+    setExistingFilesDateRange(null);
+    setRecycleBin(null);
+    setPreview(null);
+    setFileStates(prev => prev.filter(fileState => fileState.status !== 'queued'));
+    setSelectedFiles(prev => prev.filter(file => fileStates.some(fileState => fileState.file === file && fileState.status !== 'queued')));
+    loadExistingFiles(getCombinedFolderPath(folder));
   };
 
-  // Read file as data URL
-  const readFile = (file: File): Promise<string | null> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
+  // Create a subfolder in the folder shown
+  const handleCreateFolder = async () => {
+    if (!newFolder || !isStorageConfigured() || !storageProvider!.createFolder) {
+      return;
+    }
 
-      // Handle read errors
-      reader.onerror = () => {
-        console.error(`Error reading file: ${file.name}`);
-        reject(null);
-      };
+    const folderName = newFolder.name.trim();
+    let validationError: string | undefined;
+    if (!folderName) {
+      validationError = getLocalizedString('FolderNameRequired', 'Enter a folder name');
+    } else if (hasInvalidNameCharacters(folderName)) {
+      validationError = getLocalizedString('FileNameInvalidCharacters', 'File names cannot contain \\ / : * ? " < > | or end with a period');
+    } else if ([...subfolders, ...existingFiles.map(file => file.name)].some(name => name.toLowerCase() === folderName.toLowerCase())) {
+      validationError = getLocalizedString('FolderNameAlreadyExists', 'A folder or file with this name already exists');
+    }
+    if (validationError) {
+      setNewFolder(prev => prev && { ...prev, error: validationError });
+      return;
+    }
 
-      // Return result when reading completes
-      reader.onload = () => {
-        resolve(reader.result as string);
-      };
+    setNewFolder(prev => prev && { ...prev, error: undefined, saving: true });
+    try {
+      const result = await storageProvider!.createFolder(folderName, getCombinedFolderPath());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create folder');
+      }
 
-      reader.readAsDataURL(file);
-    });
+      setNewFolder(null);
+      await loadExistingFiles();
+
+      // Notify parent about the new folder
+      onEvent({
+        folderCreated: getCombinedFolderPath([currentFolder, result.folderName].filter(Boolean).join('/')),
+        method: storageProvider!.name
+      });
+    } catch (error) {
+      console.error('Error creating folder:', error);
+      setNewFolder(prev => prev && {
+        ...prev,
+        saving: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
   };
 
-  // Progress simulation for fast uploads
-  const progressSimulationIntervals = React.useRef<{ [fileName: string]: NodeJS.Timeout }>({});
+  // Validate a new name for an existing file: same type rules as uploads, valid characters,
+  // and no collision with the other existing files
+  const validateRenamedFileName = (fileName: string, newFileName: string): string | undefined => {
+    const name = newFileName.trim();
+    if (!name) {
+      return getLocalizedString('FileNameRequired', 'Enter a file name');
+    }
+    if (hasInvalidNameCharacters(name)) {
+      return getLocalizedString('FileNameInvalidCharacters', 'File names cannot contain \\ / : * ? " < > | or end with a period');
+    }
 
-  const startProgressSimulation = (fileName: string, fileSize: number) => {
-    let simulatedProgress = 0;
-    progressSimulationIntervals.current[fileName] = setInterval(() => {
-      simulatedProgress = Math.min(simulatedProgress + Math.random() * 15, 95); // Cap at 95%
-      updateFileState(fileName, { progress: Math.floor(simulatedProgress) });
-    }, 200); // Update every 200ms
-  };
+    const existingFile = existingFiles.find(file => file.name === fileName);
+    const fileTypeError = getFileTypeError(name, existingFile?.metadata?.contentType || '');
+    if (fileTypeError) {
+      return fileTypeError;
+    }
 
-  const stopProgressSimulation = (fileName: string) => {
-    if (progressSimulationIntervals.current[fileName]) {
-      clearInterval(progressSimulationIntervals.current[fileName]);
-      delete progressSimulationIntervals.current[fileName];
+    if (existingFiles.some(file => file.name !== fileName && file.name.toLowerCase() === name.toLowerCase())) {
+      return getLocalizedString('FileNameAlreadyExists', 'A file with this name already exists');
     }
+    return undefined;
   };
 
-  // Clean up all progress simulations
-  React.useEffect(() => {
-    return () => {
-      Object.values(progressSimulationIntervals.current).forEach(interval => {
-        clearInterval(interval);
-      });
-    };
-  }, []);
+  // Rename an existing file through the storage provider
+  const handleRenameExistingFile = async () => {
+    if (!renamingFile || !isStorageConfigured() || !storageProvider!.renameFile) {
+      return;
+    }
 
-  // Upload files to Cloud Flow with progress tracking
-  const uploadToCloudFlow = async (files: File[]) => {
-    if (!isCloudFlowConfigured()) {
-      throw new Error('Cloud Flow configuration is missing');
+    const { fileName } = renamingFile;
+    const newFileName = renamingFile.newFileName.trim();
+    if (newFileName === fileName) {
+      setRenamingFile(null);
+      return;
     }
 
-    // Initialize upload state
-    files.forEach(file => {
-      updateFileState(file.name, { status: 'uploading', progress: 0 });
-    });
+    const validationError = validateRenamedFileName(fileName, newFileName);
+    if (validationError) {
+      setRenamingFile(prev => prev && { ...prev, error: validationError });
+      return;
+    }
 
-    if (buttonAllowMultipleFiles) {
-      // Multiple file upload - process each file
-      const results: IUploadResult[] = [];
-      
-      for (const file of files) {
-        startProgressSimulation(file.name, file.size);
-        
-        try {
-          // Convert file to base64
-          const reader = new FileReader();
-          const base64Content = await new Promise<string>((resolve, reject) => {
-            reader.onload = () => {
-              if (reader.result) {
-                const base64 = (reader.result as string).split(',')[1];
-                resolve(base64);
-              } else {
-                reject(new Error('Failed to read file'));
-              }
-            };
-            reader.onerror = () => reject(reader.error);
-            reader.readAsDataURL(file);
-          });
+    setRenamingFile(prev => prev && { ...prev, error: undefined, saving: true });
+    try {
+      // The loaded files may be a single page, so the name is also checked against the whole folder
+      const takenNames = await getTakenFileNames(getCombinedFolderPath());
+      if (Array.from(takenNames).some(name => name !== fileName && name.toLowerCase() === newFileName.toLowerCase())) {
+        throw new Error(getLocalizedString('FileNameAlreadyExists', 'A file with this name already exists'));
+      }
 
-          // Create request payload based on COCA postman collection structure
-          const combinedFolderPath = getCombinedFolderPath();
-          const requestPayload = {
-            fileName: file.name,
-            fileContent: base64Content,
-            containerPath: containerPath!,
-            folderName: combinedFolderPath,
-            fileSize: file.size,
-            contentType: file.type || 'application/octet-stream'
-          };
-
-          // Call the upload flow directly using fetch
-          const response = await fetch(cloudFlowUploadUrl!, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify(requestPayload)
-          });
+      const result = await storageProvider!.renameFile(fileName, newFileName, getCombinedFolderPath());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to rename file');
+      }
 
-          if (!response.ok) {
-            throw new Error(`Upload failed: ${response.statusText}`);
-          }
+      setRenamingFile(null);
+      setFileVersions(prev => {
+        const newVersions = { ...prev };
+        delete newVersions[fileName];
+        return newVersions;
+      });
+      await loadExistingFiles();
 
-          const result = await response.json();
-          
-          stopProgressSimulation(file.name);
-          
-          if (result.success) {
-            updateFileState(file.name, { progress: 100 });
-            results.push({
-              fileName: file.name,
-              url: result.url || '',
-              success: true,
-              flowRunId: result.flowRunId
-            });
-          } else {
-            results.push({
-              fileName: file.name,
-              url: '',
-              success: false,
-              error: result.error || 'Upload failed'
-            });
-          }
-        } catch (error) {
-          stopProgressSimulation(file.name);
-          results.push({
-            fileName: file.name,
-            url: '',
-            success: false,
-            error: error instanceof Error ? error.message : String(error)
-          });
-        }
+      // Notify parent about the rename
+      onEvent({
+        fileRenamed: fileName,
+        newFileName: result.newFileName || newFileName,
+        method: storageProvider!.name
+      });
+    } catch (error) {
+      console.error('Error renaming file:', error);
+      setRenamingFile(prev => prev && {
+        ...prev,
+        saving: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  // Load the prior versions of a file for the Versions flyout
+  const loadFileVersions = async (fileName: string) => {
+    if (!isStorageConfigured() || !storageProvider!.listVersions) {
+      return;
+    }
+
+    setFileVersions(prev => ({ ...prev, [fileName]: { versions: prev[fileName]?.versions || [], loading: true } }));
+    try {
+      const versions = await storageProvider!.listVersions(fileName, getCombinedFolderPath());
+      setFileVersions(prev => ({ ...prev, [fileName]: { versions, loading: false } }));
+    } catch (error) {
+      console.error(`Error loading versions of ${fileName}:`, error);
+      setFileVersions(prev => ({
+        ...prev,
+        [fileName]: { versions: [], loading: false, error: error instanceof Error ? error.message : String(error) }
+      }));
+    }
+  };
+
+  // Download a prior version of a file
+  const handleDownloadVersion = async (fileName: string, version: IFileVersion) => {
+    setVersionActions(prev => ({ ...prev, [version.versionId]: 'downloading' }));
+    try {
+      const result = await storageProvider!.downloadVersion!(fileName, getCombinedFolderPath(), version.versionId);
+      saveDownloadResult(result, fileName, { versionId: version.versionId });
+    } catch (error) {
+      console.error('Error downloading version:', error);
+      alert(`Failed to download version: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setVersionActions(prev => {
+        const newActions = { ...prev };
+        delete newActions[version.versionId];
+        return newActions;
+      });
+    }
+  };
+
+  // Make a prior version the current file again; the replaced file becomes a version in turn
+  const handleRestoreVersion = async (fileName: string, version: IFileVersion) => {
+    setVersionActions(prev => ({ ...prev, [version.versionId]: 'restoring' }));
+    try {
+      const result = await storageProvider!.restoreVersion!(fileName, getCombinedFolderPath(), version.versionId);
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restore version');
       }
-      
-      // Update file states with results
-      results.forEach(result => {
-        updateFileState(result.fileName, {
-          status: result.success ? 'completed' : 'failed',
-          url: result.success ? result.url : undefined,
-          error: result.success ? undefined : result.error,
-          progress: result.success ? 100 : 0
-        });
+
+      await loadExistingFiles();
+      await loadFileVersions(fileName);
+
+      onEvent({
+        fileVersionRestored: result.fileName,
+        versionId: version.versionId,
+        method: storageProvider!.name
       });
-      
-      return results;
-    } else {
-      // Single file upload
-      startProgressSimulation(files[0].name, files[0].size);
-      
-      try {
-        // Convert file to base64
-        const reader = new FileReader();
-        const base64Content = await new Promise<string>((resolve, reject) => {
-          reader.onload = () => {
-            if (reader.result) {
-              const base64 = (reader.result as string).split(',')[1];
-              resolve(base64);
-            } else {
-              reject(new Error('Failed to read file'));
-            }
-          };
-          reader.onerror = () => reject(reader.error);
-          reader.readAsDataURL(files[0]);
-        });
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      alert(`Failed to restore version: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setVersionActions(prev => {
+        const newActions = { ...prev };
+        delete newActions[version.versionId];
+        return newActions;
+      });
+    }
+  };
 
-        // Create request payload
-        const combinedFolderPath = getCombinedFolderPath();
-        const requestPayload = {
-          fileName: files[0].name,
-          fileContent: base64Content,
-          containerPath: containerPath!,
-          folderName: combinedFolderPath,
-          fileSize: files[0].size,
-          contentType: files[0].type || 'application/octet-stream'
-        };
+  // Format bytes to readable size
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 B';
+    const k = 1024;
+    const sizes = ['B', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
+  };
 
-        // Call the upload flow directly using fetch
-        const response = await fetch(cloudFlowUploadUrl!, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestPayload)
-        });
+  // Format bytes per second to readable throughput
+  const formatTransferRate = (bytesPerSecond: number): string => {
+    return `${formatFileSize(Math.max(1, Math.round(bytesPerSecond)))}/s`;
+  };
 
-        if (!response.ok) {
-          throw new Error(`Upload failed: ${response.statusText}`);
-        }
+  // Format where, when and by whom a file was captured, from its upload metadata
+  const formatCaptureMetadata = (metadata?: Record<string, any>): string | null => {
+    const captureMetadata = readCaptureMetadata(metadata);
+    if (!captureMetadata) return null;
 
-        const result = await response.json();
-        
-        stopProgressSimulation(files[0].name);
-        
+    const parts: string[] = [];
+    if (captureMetadata.latitude !== undefined && captureMetadata.longitude !== undefined) {
+      parts.push(`${captureMetadata.latitude.toFixed(5)}, ${captureMetadata.longitude.toFixed(5)}${captureMetadata.accuracy !== undefined ? ` (±${captureMetadata.accuracy} m)` : ''}`);
+    }
+    if (captureMetadata.capturedOn) {
+      parts.push(captureMetadata.capturedOn.toLocaleString());
+    }
+    if (captureMetadata.capturedBy) {
+      parts.push(`${getLocalizedString('CapturedBy', 'Captured by')} ${captureMetadata.capturedBy}`);
+    }
+    return parts.join(' • ');
+  };
+
+  // Format seconds to a readable duration
+  const formatDuration = (seconds: number): string => {
+    const totalSeconds = Math.max(1, Math.ceil(seconds));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m ${totalSeconds % 60}s`;
+    return `${totalSeconds}s`;
+  };
+
+  // Format sent bytes, throughput and time remaining of a transfer
+  const formatTransferProgress = (sentBytes: number, totalBytes: number, bytesPerSecond?: number, secondsRemaining?: number): string => {
+    let text = `${formatFileSize(sentBytes)} ${getLocalizedString('Of', 'of')} ${formatFileSize(totalBytes)}`;
+    if (bytesPerSecond && bytesPerSecond > 0) {
+      text += ` • ${formatTransferRate(bytesPerSecond)}`;
+    }
+    if (secondsRemaining !== undefined) {
+      text += ` • ${formatDuration(secondsRemaining)} ${getLocalizedString('Remaining', 'remaining')}`;
+    }
+    return text;
+  };
+
+  // Sent bytes, combined throughput and time remaining of the running upload batch
+  const getBatchTransferStats = () => {
+    const batchStates = fileStates.filter(fs => uploadBatch.includes(fs.file.name) && fs.status !== 'failed');
+    const totalBytes = batchStates.reduce((sum, fs) => sum + fs.file.size, 0);
+    const sentBytes = batchStates.reduce((sum, fs) => sum + (fs.status === 'completed' ? fs.file.size : fs.bytesUploaded || 0), 0);
+    const bytesPerSecond = batchStates
+      .filter(fs => fs.status === 'uploading')
+      .reduce((sum, fs) => sum + (fs.bytesPerSecond || 0), 0);
+    return {
+      totalBytes,
+      sentBytes,
+      bytesPerSecond,
+      secondsRemaining: bytesPerSecond > 0 ? (totalBytes - sentBytes) / bytesPerSecond : undefined
+    };
+  };
+
+  // Calculate current total file size of pending/valid new files
+  const getCurrentTotalFileSize = (): number => {
+    const validPendingFiles = fileStates.filter(fs => fs.isValid && fs.status !== 'failed');
+    return validPendingFiles.reduce((total, fs) => total + fs.file.size, 0);
+  };
+
+  // Read file as data URL
+  const readFile = (file: File): Promise<string | null> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+
+      // Handle read errors
+      reader.onerror = () => {
+        console.error(`Error reading file: ${file.name}`);
+        reject(null);
+      };
+
+      // Return result when reading completes
+      reader.onload = () => {
+        resolve(reader.result as string);
+      };
+
+      reader.readAsDataURL(file);
+    });
+  };
+
+  // Start time and already-sent bytes of each running transfer (resumed uploads start above 0)
+  const transferStarts = React.useRef<{ [fileName: string]: { startedOn: number; startBytes: number } }>({});
+
+  // Update a file's progress, throughput and estimated time remaining from the bytes actually sent
+  const handleTransferProgress = (file: File, progress: TransferProgressEvent) => {
+    const now = Date.now();
+    if (!transferStarts.current[file.name]) {
+      transferStarts.current[file.name] = { startedOn: now, startBytes: progress.loadedBytes };
+    }
+    const { startedOn, startBytes } = transferStarts.current[file.name];
+    const elapsedSeconds = (now - startedOn) / 1000;
+    const bytesPerSecond = elapsedSeconds > 0 ? (progress.loadedBytes - startBytes) / elapsedSeconds : 0;
+
+    updateFileState(file, {
+      progress: progress.percentage ?? 0,
+      bytesUploaded: progress.loadedBytes,
+      bytesPerSecond: bytesPerSecond,
+      secondsRemaining: bytesPerSecond > 0 ? (file.size - progress.loadedBytes) / bytesPerSecond : undefined
+    });
+  };
+
+  // Number of files uploaded at the same time
+  const getMaxConcurrentUploads = () => {
+    return maxConcurrentUploads && maxConcurrentUploads > 0 ? maxConcurrentUploads : 3;
+  };
+
+  // Load the subfolders of the folder picked as move/copy target, and its files to warn about replacements
+  const loadTransferTargetFolder = async (record: string, folder: string) => {
+    const isCurrentTarget = (dialog: { record: string; folder: string }) => dialog.record === record && dialog.folder === folder;
+
+    setTransferDialog(prev => prev && { ...prev, record, loadedRecord: record, folder, loading: true, error: undefined });
+    try {
+      const entries = await storageProvider!.listFiles(getRecordFolderPath(record, folder));
+      setTransferDialog(prev => prev && isCurrentTarget(prev) ? {
+        ...prev,
+        loading: false,
+        folders: entries.filter(entry => entry.isFolder).map(entry => entry.name),
+        targetFileNames: entries.filter(entry => !entry.isFolder).map(entry => entry.name)
+      } : prev);
+    } catch (error) {
+      console.error('Error loading target folder:', error);
+      setTransferDialog(prev => prev && isCurrentTarget(prev) ? {
+        ...prev,
+        loading: false,
+        folders: [],
+        targetFileNames: [],
+        error: error instanceof Error ? error.message : String(error)
+      } : prev);
+    }
+  };
+
+  // Open the folder picker for moving or copying existing files, starting at the folder shown
+  const openTransferDialog = (fileNames: string[], operation: 'Move' | 'Copy') => {
+    setTransferDialog({
+      fileNames,
+      operation,
+      record: recordUid || '',
+      loadedRecord: recordUid || '',
+      folder: currentFolder,
+      folders: [],
+      targetFileNames: [],
+      loading: true
+    });
+    loadTransferTargetFolder(recordUid || '', currentFolder);
+  };
+
+  // Move or copy existing files to another folder, reporting each file like an upload
+  const transferExistingFiles = async (fileNames: string[], operation: 'Move' | 'Copy', targetFolderPath: string) => {
+    const transfer = operation === 'Move' ? storageProvider?.moveFile : storageProvider?.copyFile;
+    if (!isStorageConfigured() || !transfer) return;
+
+    const folderPath = getCombinedFolderPath();
+    setTransferBatch(fileNames);
+    setFileTransfers(prev => ({
+      ...prev,
+      ...Object.fromEntries(fileNames.map(fileName => [fileName, { operation, status: 'inProgress' as const }]))
+    }));
+    onEvent({ transferStatus: "InProgress" });
+
+    const results = await runWithConcurrencyLimit(fileNames, getMaxConcurrentUploads(), async (fileName) => {
+      const result = await transfer(fileName, folderPath, targetFolderPath);
+      setFileTransfers(prev => {
+        const newTransfers = { ...prev };
         if (result.success) {
-          updateFileState(files[0].name, { progress: 100 });
-          const uploadResult: IUploadResult = {
-            fileName: files[0].name,
-            url: result.url || '',
-            success: true,
-            flowRunId: result.flowRunId
-          };
-          
-          updateFileState(files[0].name, {
-            status: 'completed',
-            url: uploadResult.url,
-            progress: 100
-          });
-          
-          return [uploadResult];
+          delete newTransfers[fileName];
         } else {
-          const uploadResult: IUploadResult = {
-            fileName: files[0].name,
-            url: '',
-            success: false,
-            error: result.error || 'Upload failed'
-          };
-          
-          updateFileState(files[0].name, {
-            status: 'failed',
-            error: uploadResult.error,
-            progress: 0
-          });
-          
-          return [uploadResult];
+          newTransfers[fileName] = { operation, status: 'failed', error: result.error || `${operation} failed` };
         }
-      } catch (error) {
-        stopProgressSimulation(files[0].name);
-        const uploadResult: IUploadResult = {
-          fileName: files[0].name,
-          url: '',
-          success: false,
-          error: error instanceof Error ? error.message : String(error)
-        };
-        
-        updateFileState(files[0].name, {
-          status: 'failed',
-          error: uploadResult.error,
-          progress: 0
+        return newTransfers;
+      });
+      return result;
+    });
+
+    setTransferBatch([]);
+    setSelectedExistingFiles(prev => prev.filter(fileName => !results.some(result => result.fileName === fileName && result.success)));
+    await loadExistingFiles();
+
+    // Notify parent with the results, shaped like the upload results
+    onEvent({
+      transferResults: JSON.stringify(results.map(result => ({
+        name: result.fileName,
+        operation: operation,
+        targetFolder: targetFolderPath,
+        success: result.success,
+        error: result.error
+      }))),
+      transferStatus: results.some(result => !result.success) ? "Failed" : "Completed",
+      method: storageProvider!.name
+    });
+  };
+
+  // Run the move or copy chosen in the folder picker
+  const confirmTransferDialog = async () => {
+    if (!transferDialog) return;
+
+    const targetFolderPath = getRecordFolderPath(transferDialog.record.trim(), transferDialog.folder);
+    if (targetFolderPath === getCombinedFolderPath()) {
+      setTransferDialog(prev => prev && { ...prev, error: getLocalizedString('ChooseAnotherFolder', 'Choose a folder other than the current one') });
+      return;
+    }
+
+    const { fileNames, operation } = transferDialog;
+    setTransferDialog(null);
+    await transferExistingFiles(fileNames, operation, targetFolderPath);
+  };
+
+  // File type of an existing file used by the type filter: its extension in lower case, '' when it has none
+  const getExistingFileType = (fileName: string) => {
+    const dotIndex = fileName.lastIndexOf('.');
+    return dotIndex > 0 ? fileName.substring(dotIndex + 1).toLowerCase() : '';
+  };
+
+  // File types present in the folder shown, offered as filter chips
+  const existingFileTypes = Array.from(new Set(existingFiles.map(file => getExistingFileType(file.name)))).sort();
+
+  // Whether an existing file matches the search and filters
+  const matchesExistingFilesFilters = (file: IExistingFileState) => {
+    const search = existingFilesSearch.trim().toLowerCase();
+    const minimumDate = existingFilesDateRange !== null ? Date.now() - existingFilesDateRange * 24 * 60 * 60 * 1000 : null;
+    return (!search || file.name.toLowerCase().includes(search)) &&
+      (existingFilesTypeFilter.length === 0 || existingFilesTypeFilter.includes(getExistingFileType(file.name))) &&
+      (minimumDate === null || file.lastModified.getTime() >= minimumDate);
+  };
+
+  // Existing files matching the search and filters, in the chosen sort order
+  const visibleExistingFiles = React.useMemo(() => {
+    const files = existingFiles.filter(matchesExistingFilesFilters);
+    if (!existingFilesSort) {
+      return files;
+    }
+
+    const direction = existingFilesSort.direction === 'asc' ? 1 : -1;
+    return [...files].sort((a, b) => {
+      switch (existingFilesSort.field) {
+        case 'size':
+          return (a.size - b.size) * direction;
+        case 'lastModified':
+          return (a.lastModified.getTime() - b.lastModified.getTime()) * direction;
+        default:
+          return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }) * direction;
+      }
+    });
+  }, [existingFiles, existingFilesSearch, existingFilesSort, existingFilesTypeFilter, existingFilesDateRange]);
+
+  // Files hidden by the search or filters leave the selection
+  React.useEffect(() => {
+    setSelectedExistingFiles(prev => prev.filter(fileName => visibleExistingFiles.some(file => file.name === fileName)));
+  }, [visibleExistingFiles]);
+
+  // Window of the existing file rows rendered while scrolling; the rows outside it are
+  // replaced by spacers of their estimated height. In grid view a row holds as many
+  // tiles as fit the width of the list.
+  const existingRowsRef = React.useRef<HTMLDivElement>(null);
+  const existingRowHeight = fileViewMode === 'grid' ? FILE_TILE_HEIGHT : EXISTING_FILE_ROW_HEIGHT;
+  const existingFilesPerRow = fileViewMode === 'grid'
+    ? Math.max(1, Math.floor(((existingRowsRef.current?.clientWidth || 4 * FILE_TILE_WIDTH + 32) - 32 + FILE_TILE_GAP) / FILE_TILE_WIDTH))
+    : 1;
+  const existingRowCount = Math.ceil(visibleExistingFiles.length / existingFilesPerRow);
+  const existingRowsScrollTop = fileListViewport.scrollTop - (existingRowsRef.current?.offsetTop ?? 0);
+  const existingRowsEnd = Math.min(
+    existingRowCount,
+    Math.max(0, Math.ceil((existingRowsScrollTop + fileListViewport.height) / existingRowHeight)) + EXISTING_FILE_ROWS_OVERSCAN
+  );
+  const existingRowsStart = Math.min(
+    existingRowsEnd,
+    Math.max(0, Math.floor(existingRowsScrollTop / existingRowHeight) - EXISTING_FILE_ROWS_OVERSCAN)
+  );
+  const renderedExistingFiles = visibleExistingFiles.slice(existingRowsStart * existingFilesPerRow, existingRowsEnd * existingFilesPerRow);
+
+  // Session cache key of the thumbnail of an existing file in the folder shown
+  const getExistingThumbnailKey = (existingFile: IExistingFile): string => {
+    return getThumbnailCacheKey(storageProvider?.name || '', getCombinedFolderPath(currentFolder), existingFile.name, existingFile.lastModified);
+  };
+
+  // Whether the grid view shows a thumbnail of an existing file rather than its file type icon
+  const hasExistingThumbnail = (existingFile: IExistingFile): boolean => {
+    return getPreviewKind(existingFile.name, existingFile.metadata?.contentType) === 'image' && existingFile.size <= THUMBNAIL_SOURCE_SIZE_LIMIT;
+  };
+
+  // Create the thumbnails of the existing images rendered in grid view, downloading them through the storage
+  React.useEffect(() => {
+    if (fileViewMode !== 'grid' || !isStorageConfigured()) return;
+    const missingThumbnails = renderedExistingFiles.filter(existingFile =>
+      hasExistingThumbnail(existingFile) && getCachedThumbnail(getExistingThumbnailKey(existingFile)) === undefined
+    );
+    if (missingThumbnails.length === 0) return;
+
+    const folderPath = getCombinedFolderPath(currentFolder);
+    runWithConcurrencyLimit(missingThumbnails, THUMBNAIL_CONCURRENCY, async existingFile => {
+      await loadCachedThumbnail(getExistingThumbnailKey(existingFile), async () => {
+        const result = await storageProvider!.downloadFile(existingFile.name, folderPath);
+        if (!result.success || !result.fileContent) {
+          throw new Error(result.error || `File ${existingFile.name} was not downloaded`);
+        }
+        return base64ToBlob(result.fileContent, result.contentType || existingFile.metadata?.contentType);
+      });
+      setThumbnailsLoaded(count => count + 1);
+    });
+  }, [fileViewMode, visibleExistingFiles, existingRowsStart, existingRowsEnd, existingFilesPerRow, storageProvider]);
+
+  // Create the thumbnails of the pending images in grid view from their File objects
+  React.useEffect(() => {
+    if (fileViewMode !== 'grid') return;
+    const missingThumbnails = fileStates
+      .map(fileState => fileState.file)
+      .filter(file => getPreviewKind(file.name, file.type) === 'image' && getFileThumbnail(file) === undefined);
+    if (missingThumbnails.length === 0) return;
+
+    runWithConcurrencyLimit(missingThumbnails, THUMBNAIL_CONCURRENCY, async file => {
+      await loadFileThumbnail(file);
+      setThumbnailsLoaded(count => count + 1);
+    });
+  }, [fileViewMode, fileStates]);
+
+  // Counts previews, so content that arrives after the dialog moved on is dropped
+  const previewRequest = React.useRef(0);
+
+  // Show an existing file in the preview dialog, rendered from the content the download returns
+  const openPreview = async (fileName: string) => {
+    if (!isStorageConfigured()) return;
+
+    const request = ++previewRequest.current;
+    const existingFile = existingFiles.find(file => file.name === fileName);
+    const kind = getPreviewKind(fileName, existingFile?.metadata?.contentType);
+    setPreview({ fileName, kind, loading: kind !== null });
+    if (!kind) return;
+
+    try {
+      const result = await storageProvider!.downloadFile(fileName, getCombinedFolderPath());
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to download file');
+      }
+      if (!result.fileContent) {
+        throw new Error('The storage returned no file content');
+      }
+
+      // Browsers only render PDFs and SVGs from blobs of their own content type
+      const contentType = kind === 'pdf'
+        ? 'application/pdf'
+        : fileName.toLowerCase().endsWith('.svg') ? 'image/svg+xml' : result.contentType;
+      const content = base64ToBlob(result.fileContent, contentType);
+      const loaded: Partial<NonNullable<typeof preview>> = { result, loading: false };
+
+      if (kind === 'image' || kind === 'pdf') {
+        loaded.objectUrl = URL.createObjectURL(content);
+      } else {
+        const text = await content.slice(0, PREVIEW_TEXT_LIMIT).text();
+        loaded.truncated = content.size > PREVIEW_TEXT_LIMIT;
+        if (kind === 'csv') {
+          loaded.rows = parseCsv(text);
+        } else if (kind === 'json' && !loaded.truncated) {
+          try {
+            loaded.text = JSON.stringify(JSON.parse(text), null, 2);
+          } catch (parseError) {
+            // Invalid JSON is shown as it is
+            loaded.text = text;
+          }
+        } else {
+          loaded.text = text;
+        }
+      }
+
+      if (request !== previewRequest.current) {
+        if (loaded.objectUrl) URL.revokeObjectURL(loaded.objectUrl);
+        return;
+      }
+      setPreview(prev => prev && { ...prev, ...loaded });
+    } catch (error) {
+      console.error(`Error previewing file ${fileName}:`, error);
+      if (request === previewRequest.current) {
+        setPreview(prev => prev && { ...prev, loading: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  };
+
+  const closePreview = () => {
+    previewRequest.current++;
+    setPreview(null);
+  };
+
+  // Release the blob URL of the previewed file once the dialog shows another file or closes
+  React.useEffect(() => {
+    const objectUrl = preview?.objectUrl;
+    return () => {
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [preview?.objectUrl]);
+
+  // Position of the previewed file among the files shown, for previous/next navigation
+  const previewIndex = preview ? visibleExistingFiles.findIndex(file => file.name === preview.fileName) : -1;
+
+  // Labels of the sort fields of the existing files list
+  const existingFilesSortLabels: Record<IExistingFilesSort['field'], string> = {
+    name: getLocalizedString('SortByName', 'Name'),
+    size: getLocalizedString('SortBySize', 'Size'),
+    lastModified: getLocalizedString('SortByLastModified', 'Last modified')
+  };
+
+  // Change the sort of the existing files list, persisted in the state of the control instance
+  const changeExistingFilesSort = (sort: IExistingFilesSort) => {
+    setExistingFilesSort(sort);
+    try {
+      context.mode.setControlState({ existingFilesSort: sort });
+    } catch (error) {
+      console.warn('Failed to save the sort to the control state:', error);
+    }
+  };
+
+  // Show or hide a file type in the existing files list
+  const toggleExistingFilesTypeFilter = (fileType: string) => {
+    setExistingFilesTypeFilter(prev => prev.includes(fileType)
+      ? prev.filter(type => type !== fileType)
+      : [...prev, fileType]);
+  };
+
+  // Select or unselect an existing file for bulk actions
+  const toggleExistingFileSelection = (fileName: string, selected: boolean) => {
+    setSelectedExistingFiles(prev => selected
+      ? [...prev.filter(name => name !== fileName), fileName]
+      : prev.filter(name => name !== fileName));
+    setShowBulkDeleteConfirmation(false);
+  };
+
+  // Select all existing files shown, or none
+  const toggleAllExistingFilesSelection = (selected: boolean) => {
+    setSelectedExistingFiles(selected ? visibleExistingFiles.map(file => file.name) : []);
+    setShowBulkDeleteConfirmation(false);
+  };
+
+  // Delete the selected existing files after a single confirmation, reporting each file's
+  // outcome and refreshing ExistingFiles once at the end
+  const handleBulkDelete = async () => {
+    if (!isStorageConfigured()) return;
+
+    const fileNames = [...selectedExistingFiles];
+    const folderPath = getCombinedFolderPath();
+    setShowBulkDeleteConfirmation(false);
+    setBulkActionErrors({});
+    setDeletingFiles(prev => ({ ...prev, ...Object.fromEntries(fileNames.map(fileName => [fileName, true])) }));
+
+    const results = await runWithConcurrencyLimit(fileNames, getMaxConcurrentUploads(), async (fileName) => {
+      const result = await storageProvider!.deleteFile(fileName, folderPath);
+      setDeletingFiles(prev => ({ ...prev, [fileName]: false }));
+      if (!result.success) {
+        setBulkActionErrors(prev => ({ ...prev, [fileName]: result.error || 'Failed to delete file' }));
+      }
+      return result;
+    });
+
+    setSelectedExistingFiles(fileNames.filter((fileName, index) => !results[index].success));
+    await loadExistingFiles();
+    showUndoDeleteToast(results.filter(result => result.success), folderPath);
+
+    // Notify parent about the deletions
+    onEvent({
+      filesDeleted: JSON.stringify(results.filter(result => result.success).map(result => result.fileName)),
+      deleteResults: JSON.stringify(results.map(result => ({
+        name: result.fileName,
+        success: result.success,
+        error: result.error
+      })))
+    });
+  };
+
+  // Download existing files as one ZIP archive named after the folder path. Files are fetched
+  // one at a time and each is turned into a Blob right away, so only a single file's
+  // base64 content is held in memory
+  const handleDownloadArchive = async (files: IExistingFileState[]) => {
+    if (!isStorageConfigured() || files.length === 0) return;
+
+    const folderPath = getCombinedFolderPath();
+    const archiveName = `${(folderPath || getLocalizedString('Container', 'Container')).replace(/[\\/:*?"<>|]+/g, '_')}.zip`;
+    const archive = createZipArchiveBuilder();
+    const results: { name: string; success: boolean; error?: string }[] = [];
+    setBulkActionErrors({});
+    setArchiveDownload({ completedFiles: 0, totalFiles: files.length });
+
+    try {
+      for (const { name: fileName, lastModified } of files) {
+        try {
+          const result = await storageProvider!.downloadFile(fileName, folderPath);
+          if (!result.success) {
+            throw new Error(result.error || 'Failed to download file');
+          }
+          if (!result.fileContent) {
+            throw new Error('The storage returned no file content');
+          }
+          await archive.addFile(fileName, base64ToBlob(result.fileContent, result.contentType), lastModified);
+          results.push({ name: fileName, success: true });
+        } catch (error) {
+          console.error(`Error adding file ${fileName} to the archive:`, error);
+          const message = error instanceof Error ? error.message : String(error);
+          setBulkActionErrors(prev => ({ ...prev, [fileName]: message }));
+          results.push({ name: fileName, success: false, error: message });
+        }
+        setArchiveDownload(prev => prev && { ...prev, completedFiles: prev.completedFiles + 1 });
+      }
+
+      if (archive.getFileCount() > 0) {
+        const content = archive.toBlob();
+        const objectUrl = URL.createObjectURL(content);
+        const link = document.createElement('a');
+        link.href = objectUrl;
+        link.download = archiveName;
+
+        // Trigger the download
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(objectUrl);
+
+        // Notify parent about download action
+        onEvent({
+          fileDownloaded: archiveName,
+          fileSize: content.size,
+          contentType: content.type,
+          method: storageProvider!.name,
+          archiveResults: JSON.stringify(results)
         });
-        
-        return [uploadResult];
       }
+    } finally {
+      setArchiveDownload(null);
+    }
+  };
+
+  // Download every file of the folder matching the search and filters as one ZIP archive,
+  // listing the pages that were not loaded yet first
+  const handleDownloadAll = async () => {
+    if (!existingFilesContinuationToken) {
+      await handleDownloadArchive(visibleExistingFiles);
+      return;
+    }
+
+    // No file count is known while the folder is listed
+    setArchiveDownload({ completedFiles: 0, totalFiles: 0 });
+    let files: IExistingFileState[];
+    try {
+      files = toExistingFileStates(await listAllExistingFiles(getCombinedFolderPath())).filter(matchesExistingFilesFilters);
+    } catch (error) {
+      console.error('Error listing the files to archive:', error);
+      setArchiveDownload(null);
+      dispatchToast(
+        <Toast>
+          <ToastTitle>
+            {`${getLocalizedString('ArchiveListingFailed', 'The files of the folder could not be listed')}: ${error instanceof Error ? error.message : String(error)}`}
+          </ToastTitle>
+        </Toast>,
+        { intent: 'error' }
+      );
+      return;
+    }
+    if (files.length === 0) {
+      setArchiveDownload(null);
+      return;
+    }
+    await handleDownloadArchive(files);
+  };
+
+  // Abort controllers of the files in the running upload batch
+  const uploadControllers = React.useRef<{ [fileName: string]: AbortController }>({});
+
+  // Cancel a single upload, aborting its request in flight
+  const cancelUpload = (fileName: string) => {
+    uploadControllers.current[fileName]?.abort();
+  };
+
+  // Cancel every upload of the running batch, including the queued ones
+  const cancelAllUploads = () => {
+    Object.values(uploadControllers.current).forEach(controller => controller.abort());
+  };
+
+  // Abort running uploads when the control is removed
+  React.useEffect(() => {
+    return () => {
+      Object.values(uploadControllers.current).forEach(controller => controller.abort());
+    };
+  }, []);
+
+  // Upload a single file through the storage provider, to its folder or the subfolder it is routed to
+  const uploadFileToStorage = async (file: File, signal: AbortSignal, conflictAction?: ConflictAction, metadata?: Record<string, string>): Promise<IUploadResult> => {
+    const targetFolder = uploadTargetFolders.current.get(file);
+    try {
+      return await storageProvider!.uploadFile(file, [getUploadFolderPath(file), targetFolder].filter(Boolean).join('/'), {
+        signal: signal,
+        conflictAction: conflictAction,
+        metadata: metadata,
+        onProgress: (progress: TransferProgressEvent) => handleTransferProgress(file, progress),
+        onRetry: (attempt: number, error: Error) => {
+          console.warn(`Retrying upload of ${file.name} (attempt ${attempt}):`, error.message);
+          updateFileState(file, { attempts: attempt });
+        }
+      });
+    } finally {
+      delete transferStarts.current[file.name];
     }
   };
 
+  // Upload files to the storage provider with progress tracking
+  const uploadToStorage = async (files: File[], conflictActions: { [fileName: string]: ConflictAction } = {}) => {
+    if (!isStorageConfigured()) {
+      throw new Error('Storage configuration is missing');
+    }
+
+    // Single file mode only uploads the first file
+    const filesToUpload = buttonAllowMultipleFiles ? files : files.slice(0, 1);
+
+    // Initialize upload state
+    filesToUpload.forEach(file => {
+      updateFileState(file, {
+        status: 'uploading',
+        progress: 0,
+        bytesUploaded: 0,
+        bytesPerSecond: undefined,
+        secondsRemaining: undefined,
+        attempts: 1,
+        error: undefined
+      });
+    });
+
+    setUploadBatch(filesToUpload.map(file => file.name));
+    filesToUpload.forEach(file => {
+      uploadControllers.current[file.name] = new AbortController();
+    });
+
+    // Where, when and by whom the batch was uploaded, read once for all of its files
+    const metadata = captureUploadMetadata ? await getCaptureMetadata(context) : undefined;
+
+    // Run up to MaxConcurrentUploads transfers at once; results keep the selection order
+    const results = await runWithConcurrencyLimit(filesToUpload, getMaxConcurrentUploads(), async (file) => {
+      const signal = uploadControllers.current[file.name].signal;
+      // Files cancelled while queued are never sent
+      const result: IUploadResult = signal.aborted
+        ? { fileName: file.name, url: '', success: false, error: 'Upload cancelled', attempts: 0, cancelled: true }
+        : await uploadFileToStorage(file, signal, conflictActions[file.name], metadata);
+      delete uploadControllers.current[file.name];
+
+      // Update file state with the result
+      updateFileState(file, {
+        status: result.success ? 'completed' : result.cancelled ? 'cancelled' : 'failed',
+        url: result.success ? result.url : undefined,
+        error: result.success ? undefined : result.error,
+        progress: result.success ? 100 : 0,
+        bytesUploaded: result.success ? file.size : 0,
+        secondsRemaining: undefined,
+        attempts: result.attempts
+      });
+      return conflictActions[file.name] ? { ...result, conflictAction: conflictActions[file.name] } : result;
+    });
+
+    setUploadBatch([]);
+    return results;
+  };
+
   // Process files as JSON
   const processFilesAsJSON = async (files: File[]) => {
     const filesArray = await Promise.all(
@@ -999,7 +1951,117 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
     return jsonString;
   };
 
-  // Process files by uploading to Cloud Flow or creating JSON
+  // Resolves the open conflict dialog with the chosen actions, or null when it was cancelled
+  const conflictPromptResolver = React.useRef<((decisions: { [fileName: string]: ConflictAction } | null) => void) | null>(null);
+
+  // Ask the user what to do with each file whose name already exists
+  const promptConflictDecisions = (fileNames: string[]) => {
+    return new Promise<{ [fileName: string]: ConflictAction } | null>(resolve => {
+      conflictPromptResolver.current = resolve;
+      setConflictPrompt(Object.fromEntries(fileNames.map(fileName => [fileName, 'AutoRename' as ConflictAction])));
+    });
+  };
+
+  // Close the conflict dialog, sending the decisions (null cancels the upload)
+  const closeConflictPrompt = (decisions: { [fileName: string]: ConflictAction } | null) => {
+    conflictPromptResolver.current?.(decisions);
+    conflictPromptResolver.current = null;
+    setConflictPrompt(null);
+  };
+
+  // Build "name (n).ext" with the lowest n not already taken
+  const getAvailableFileName = (fileName: string, takenNames: Set<string>) => {
+    const dotIndex = fileName.lastIndexOf('.');
+    const baseName = dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+    const extension = dotIndex > 0 ? fileName.slice(dotIndex) : '';
+    let counter = 1;
+    while (takenNames.has(`${baseName} (${counter})${extension}`)) {
+      counter++;
+    }
+    return `${baseName} (${counter})${extension}`;
+  };
+
+  // Decide what happens to files whose names already exist, before anything is sent.
+  // Returns null when the user cancels the conflict dialog.
+  const resolveConflicts = async (files: File[]) => {
+    // Each file is checked against the folder it goes to: its routed subfolder, or the folder it was queued for
+    const getFileFolderPath = (file: File) => [getUploadFolderPath(file), uploadTargetFolders.current.get(file)].filter(Boolean).join('/');
+    const existingNames: { [folderPath: string]: Set<string> } = {};
+    for (const folderPath of Array.from(new Set(files.map(getFileFolderPath)))) {
+      existingNames[folderPath] = await getTakenFileNames(folderPath);
+    }
+    const conflictingNames = files.filter(file => existingNames[getFileFolderPath(file)].has(file.name)).map(file => file.name);
+
+    let decisions: { [fileName: string]: ConflictAction } = {};
+    if (conflictingNames.length > 0) {
+      if (conflictBehavior === 'Prompt') {
+        const answer = await promptConflictDecisions(conflictingNames);
+        if (!answer) {
+          return null;
+        }
+        decisions = answer;
+      } else {
+        const action: ConflictAction = conflictBehavior || 'Overwrite';
+        conflictingNames.forEach(fileName => {
+          decisions[fileName] = action;
+        });
+      }
+    }
+
+    // Renamed files must not collide with existing files of their folder or with the rest of the batch,
+    // whose pending state is keyed by file name
+    const batchNames = new Set(files.map(file => file.name));
+    const uploads: File[] = [];
+    const actions: { [fileName: string]: ConflictAction } = {};
+    const skipped: IUploadResult[] = [];
+    // Names the files are uploaded or skipped under, in selection order
+    const fileNames: string[] = [];
+
+    files.forEach(file => {
+      const action = decisions[file.name];
+      if (action === 'Skip') {
+        fileNames.push(file.name);
+        removeFromOfflineQueue(file);
+        updateFileState(file, { status: 'skipped', progress: 0, error: undefined });
+        skipped.push({
+          fileName: file.name,
+          url: '',
+          success: false,
+          error: 'Skipped: a file with this name already exists',
+          conflictAction: 'Skip'
+        });
+      } else if (action === 'AutoRename') {
+        const renamedFile = new File([file], getAvailableFileName(file.name, new Set([...existingNames[getFileFolderPath(file)], ...batchNames])), {
+          type: file.type,
+          lastModified: file.lastModified
+        });
+        batchNames.add(renamedFile.name);
+        fileNames.push(renamedFile.name);
+        // The renamed file leaves the offline queue under its old name and keeps its destination
+        removeFromOfflineQueue(file);
+        if (uploadFolderPaths.current.has(file)) {
+          uploadFolderPaths.current.set(renamedFile, uploadFolderPaths.current.get(file)!);
+        }
+        if (uploadTargetFolders.current.has(file)) {
+          uploadTargetFolders.current.set(renamedFile, uploadTargetFolders.current.get(file)!);
+        }
+        setFileStates(prev => prev.map(fileState => fileState.file === file ? { ...fileState, file: renamedFile } : fileState));
+        setSelectedFiles(prev => prev.map(selectedFile => selectedFile === file ? renamedFile : selectedFile));
+        uploads.push(renamedFile);
+        actions[renamedFile.name] = action;
+      } else {
+        if (action) {
+          actions[file.name] = action;
+        }
+        fileNames.push(file.name);
+        uploads.push(file);
+      }
+    });
+
+    return { uploads, actions, skipped, fileNames };
+  };
+
+  // Process files by uploading to the storage provider or creating JSON
   const processFiles = async (files: File[]) => {
     if (!files || files.length === 0) return;
 
@@ -1008,12 +2070,47 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
         setButtonLoadingState(ButtonLoadingStateEnum.Loading);
       }
       
-      if (isCloudFlowConfigured()) {
-        // Upload to Cloud Flow
+      // Nothing can be sent or listed while offline; conflicts are resolved when the queue is replayed
+      if (isStorageConfigured() && !navigator.onLine) {
+        await queueFilesOffline(files);
+        setButtonLoadingState(ButtonLoadingStateEnum.Initial);
+        return;
+      }
+
+      // Files whose names already exist are overwritten, renamed or skipped before anything is sent
+      const resolution = isStorageConfigured() ? await resolveConflicts(files) : null;
+      if (isStorageConfigured() && !resolution) {
+        setButtonLoadingState(ButtonLoadingStateEnum.Initial);
+        return;
+      }
+
+      if (resolution) {
+        // Upload to the storage provider
         onEvent({ uploadStatus: "InProgress" });
         
-        const uploadResults = await uploadToCloudFlow(files);
-        const hasFailures = uploadResults.some((result: IUploadResult) => !result.success);
+        // Results follow the selection order, skipped files included; upload results follow the
+        // order of the uploads, which keeps their names even when the storage renames a file
+        const uploadedResults = resolution.uploads.length > 0 ? await uploadToStorage(resolution.uploads, resolution.actions) : [];
+        const resultsByName = new Map<string, IUploadResult>([
+          ...uploadedResults.map((result: IUploadResult, index: number): [string, IUploadResult] => [resolution.uploads[index].name, result]),
+          ...resolution.skipped.map((result): [string, IUploadResult] => [result.fileName, result])
+        ]);
+        const uploadResults = resolution.fileNames
+          .filter(fileName => resultsByName.has(fileName))
+          .map(fileName => resultsByName.get(fileName)!);
+
+        // Files that failed because connectivity dropped mid-upload wait in the offline queue
+        const queuedFileNames = navigator.onLine
+          ? []
+          : uploadResults.filter((result: IUploadResult) => !result.success && !result.cancelled).map((result: IUploadResult) => result.fileName);
+        if (queuedFileNames.length > 0) {
+          await queueFilesOffline(resolution.uploads.filter(file => queuedFileNames.includes(file.name)));
+        }
+        // Every other file has had its attempt and leaves the queue
+        resolution.uploads.filter(file => !queuedFileNames.includes(file.name)).forEach(removeFromOfflineQueue);
+
+        const hasFailures = uploadResults.some((result: IUploadResult) => !result.success && !result.cancelled && result.conflictAction !== 'Skip' && !queuedFileNames.includes(result.fileName));
+        const hasCancellations = uploadResults.some((result: IUploadResult) => result.cancelled);
         
         // Reload existing files and clean up after successful uploads
         if (uploadResults.some((result: IUploadResult) => result.success)) {
@@ -1021,8 +2118,9 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
           
           // Remove successfully uploaded files from state to avoid duplicates
           const successfulUploads = uploadResults.filter((result: IUploadResult) => result.success).map((result: IUploadResult) => result.fileName);
-          setFileStates(prev => prev.filter(fileState => !successfulUploads.includes(fileState.file.name)));
-          setSelectedFiles(prev => prev.filter(file => !successfulUploads.includes(file.name)));
+          const uploadedFiles = resolution.uploads.filter((file, index) => uploadedResults[index]?.success);
+          setFileStates(prev => prev.filter(fileState => !uploadedFiles.includes(fileState.file)));
+          setSelectedFiles(prev => prev.filter(file => !uploadedFiles.includes(file)));
           
           // Clear progress for successful uploads
           setUploadProgress(prev => {
@@ -1034,15 +2132,17 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
           });
         }
         
-        // Notify parent with upload results (no cumulative JSON for cloud flow uploads)
+        // Notify parent with upload results (no cumulative JSON for storage uploads)
         onEvent({ 
           uploadResults: JSON.stringify(uploadResults),
-          uploadStatus: hasFailures ? "Failed" : "Completed",
+          uploadStatus: hasFailures ? "Failed" : hasCancellations ? "Cancelled" : "Completed",
           filesJSON: JSON.stringify(uploadResults.map((result: IUploadResult) => ({
             name: result.fileName,
             url: result.url,
             success: result.success,
-            error: result.error
+            error: result.error,
+            queued: queuedFileNames.includes(result.fileName) || undefined,
+            conflictAction: result.conflictAction
           })))
         });
       } else {
@@ -1052,7 +2152,7 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
         
         // Mark all files as completed for JSON mode
         files.forEach(file => {
-          updateFileState(file.name, { status: 'completed', progress: 100 });
+          updateFileState(file, { status: 'completed', progress: 100 });
         });
         
         // Only maintain cumulative JSON when RecordUid is empty
@@ -1086,12 +2186,9 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
       console.error("Error processing files:", error);
       setButtonLoadingState(ButtonLoadingStateEnum.Initial);
       
-      // Stop all progress simulations
-      files.forEach(file => stopProgressSimulation(file.name));
-      
       // Mark all files as failed
       files.forEach(file => {
-        updateFileState(file.name, { 
+        updateFileState(file, { 
           status: 'failed', 
           error: error instanceof Error ? error.message : String(error),
           progress: 0 
@@ -1120,23 +2217,181 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
     }
   };
 
+  // Camera, microphone and native file picker of the mobile player
+  const deviceCaptureAvailable = !!enableDeviceCapture && isDeviceCaptureAvailable(context);
+
+  // Show why a file could not be captured or picked on the device
+  const showDeviceCaptureError = (error: unknown) => {
+    dispatchToast(
+      <Toast>
+        <ToastTitle>
+          {`${getLocalizedString('DeviceCaptureFailed', 'The file could not be captured')}: ${error instanceof Error ? error.message : String(error)}`}
+        </ToastTitle>
+      </Toast>,
+      { intent: 'error' }
+    );
+  };
+
   // Handle upload button click
-  const handleButtonClick = () => {
+  const handleButtonClick = async () => {
     setButtonLoadingState(ButtonLoadingStateEnum.Initial);
-    importFileRef.current?.click();
+    if (!deviceCaptureAvailable) {
+      importFileRef.current?.click();
+      return;
+    }
+
+    // The mobile player selects files with its native file picker
+    try {
+      const files = await pickDeviceFiles(context.device, buttonAllowMultipleFiles, getCurrentConfig().maxTotalFileSizeMB * 1024 * 1024);
+      if (files.length > 0) {
+        addFilesToState(files);
+      }
+    } catch (error) {
+      console.error('Error picking files on the device:', error);
+      showDeviceCaptureError(error);
+    }
+  };
+
+  // Take a photo or record a video or audio, then add it like a selected file
+  const handleDeviceCapture = async (kind: DeviceCaptureKind) => {
+    setCapturingKind(kind);
+    try {
+      const file = await captureDeviceFile(context.device, kind);
+      if (file) {
+        addFilesToState([file]);
+      }
+    } catch (error) {
+      console.error(`Error capturing ${kind} on the device:`, error);
+      showDeviceCaptureError(error);
+    } finally {
+      setCapturingKind(null);
+    }
+  };
+
+  // Scan the barcode that names the files captured or selected next
+  const handleScanBarcode = async () => {
+    setScanningBarcode(true);
+    try {
+      const barcode = await context.device.getBarcodeValue();
+      if (barcode && sanitizeBarcode(barcode)) {
+        setScannedBarcode(barcode);
+      }
+    } catch (error) {
+      console.error('Error scanning a barcode on the device:', error);
+      showDeviceCaptureError(error);
+    } finally {
+      setScanningBarcode(false);
+    }
+  };
+
+  // Pending, failed, cancelled and queued files (retried, chunked uploads resume) can be uploaded
+  const isUploadableFile = (fileState: IFileState) => {
+    return !!fileState.isValid && (fileState.status === 'pending' || fileState.status === 'failed' || fileState.status === 'cancelled' || fileState.status === 'queued');
   };
 
-  // Upload all pending valid files
-  const handleUploadAll = async () => {
-    const pendingValidFiles = fileStates
-      .filter(fs => fs.status === 'pending' && fs.isValid)
-      .map(fs => fs.file);
-    
-    if (pendingValidFiles.length > 0) {
-      await processFiles(pendingValidFiles);
+  // Upload all pending valid files and retry failed ones
+  const handleUploadAll = async () => {
+    const pendingValidFiles = fileStates
+      .filter(isUploadableFile)
+      .map(fs => fs.file);
+    
+    if (pendingValidFiles.length > 0) {
+      await processFiles(pendingValidFiles);
+    }
+  };
+
+  // File states of the latest render, read by the replay once the queue has been read
+  const fileStatesRef = React.useRef(fileStates);
+  fileStatesRef.current = fileStates;
+
+  // Set while a replay runs, so the queue is never replayed twice at once
+  const replayingOfflineQueue = React.useRef(false);
+
+  // Restore the uploads queued offline for the current storage, and send each to its own folder when online
+  const replayQueuedUploads = async () => {
+    let entries: IQueuedUpload[];
+    try {
+      entries = await getQueuedUploads(storageProvider!.name);
+    } catch (error) {
+      console.warn('Failed to read the offline upload queue:', error);
+      return;
+    }
+    if (entries.length === 0) return;
+
+    // Entries already in the list keep their file; the others are restored, e.g. after the app was reopened
+    const folderPath = getCombinedFolderPath();
+    const currentFileStates = fileStatesRef.current;
+    const restoredEntries = entries.filter(entry => !currentFileStates.some(fileState => fileState.queuedUploadId === entry.id));
+    restoredEntries.forEach(entry => {
+      uploadFolderPaths.current.set(entry.file, entry.folderPath);
+      if (entry.targetFolder) {
+        uploadTargetFolders.current.set(entry.file, entry.targetFolder);
+      }
+    });
+    setFileStates(prev => [
+      ...prev,
+      ...restoredEntries.map(entry => ({
+        file: entry.file,
+        progress: 0,
+        status: 'queued' as const,
+        isValid: true,
+        targetFolder: entry.targetFolder,
+        folderPath: entry.folderPath !== folderPath ? entry.folderPath : undefined,
+        queuedUploadId: entry.id
+      }))
+    ]);
+    setSelectedFiles(prev => [...prev, ...restoredEntries.map(entry => entry.file)]);
+    setShowFileList(true);
+
+    if (navigator.onLine) {
+      const queuedFiles = entries.map(entry => currentFileStates.find(fileState => fileState.queuedUploadId === entry.id)?.file ?? entry.file);
+      // Uploads and conflict decisions are tracked by file name, so files of the same name
+      // queued for different folders are sent in separate batches
+      const batches: File[][] = [];
+      queuedFiles.forEach(file => {
+        const batch = batches.find(files => !files.some(batchFile => batchFile.name === file.name));
+        if (batch) {
+          batch.push(file);
+        } else {
+          batches.push([file]);
+        }
+      });
+      for (const batch of batches) {
+        await processFiles(batch);
+      }
+    }
+  };
+
+  // Replay the offline queue, unless an upload or another replay is running
+  const replayOfflineQueue = async () => {
+    if (!isStorageConfigured() || isUploadInProgress() || replayingOfflineQueue.current) return;
+
+    replayingOfflineQueue.current = true;
+    try {
+      await replayQueuedUploads();
+    } finally {
+      replayingOfflineQueue.current = false;
     }
   };
 
+  // The listener outlives renders, so it calls the latest replay function
+  const replayOfflineQueueRef = React.useRef(replayOfflineQueue);
+  replayOfflineQueueRef.current = replayOfflineQueue;
+
+  // Replay the offline queue when the browser comes back online
+  React.useEffect(() => {
+    const onOnline = () => {
+      replayOfflineQueueRef.current();
+    };
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, []);
+
+  // Restore the offline queue on load and when the storage or record changes, which resets the file list
+  React.useEffect(() => {
+    replayOfflineQueueRef.current();
+  }, [storageProvider, recordUid]);
+
   // Drag & drop state management
   const [isDragging, setIsDragging] = React.useState<boolean>(false);
   const dropZoneRef = React.useRef<HTMLDivElement>(null);
@@ -1176,6 +2431,55 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
     }
   };
 
+  // Prior versions of an existing file, shown in the Versions flyout of list rows and grid tiles
+  const renderFileVersions = (fileName: string) => (
+    <>
+      <Caption1 style={{ color: '#605e5c', fontWeight: '600' }}>
+        {getLocalizedString('PriorVersions', 'Prior versions')}
+      </Caption1>
+      {fileVersions[fileName]?.loading ? (
+        <div style={{ padding: '12px 0' }}>
+          <Spinner size="tiny" />
+        </div>
+      ) : fileVersions[fileName]?.error ? (
+        <Caption1 style={{ display: 'block', color: '#d13438', marginTop: '8px' }}>
+          {fileVersions[fileName].error}
+        </Caption1>
+      ) : (fileVersions[fileName]?.versions || []).length === 0 ? (
+        <Caption1 style={{ display: 'block', color: '#8a8886', marginTop: '8px' }}>
+          {getLocalizedString('NoPriorVersions', 'No prior versions')}
+        </Caption1>
+      ) : (
+        fileVersions[fileName].versions.map(version => (
+          <div key={version.versionId} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px' }}>
+            <Caption1 style={{ flex: 1, color: '#605e5c' }}>
+              {formatFileSize(version.size)} • {version.lastModified.toLocaleString()}
+            </Caption1>
+            <Button
+              appearance="subtle"
+              size="small"
+              icon={versionActions[version.versionId] === 'downloading' ? <Spinner size="tiny" /> : <ArrowDownloadRegular />}
+              onClick={() => handleDownloadVersion(fileName, version)}
+              disabled={!!versionActions[version.versionId]}
+              title={getLocalizedString('View', 'Download')}
+            />
+            {buttonDisplayMode === '0' && (
+              <Button
+                appearance="subtle"
+                size="small"
+                icon={versionActions[version.versionId] === 'restoring' ? <Spinner size="tiny" /> : <ArrowUndoRegular />}
+                onClick={() => handleRestoreVersion(fileName, version)}
+                disabled={!!versionActions[version.versionId]}
+              >
+                {getLocalizedString('Restore', 'Restore')}
+              </Button>
+            )}
+          </div>
+        ))
+      )}
+    </>
+  );
+
   return (
     <FluentProvider theme={customTheme}>
       <div style={{ 
@@ -1366,6 +2670,79 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
               {existingFiles.length > 0 ? `${getLocalizedString('ViewingFilesIn', 'Viewing files in')} ${getCombinedFolderPath() || getLocalizedString('Container', 'container')}` : getLocalizedString('NoFilesFound', 'No files found')}
             </Body1>
           ) : null}
+
+          {/* Device capture buttons of the mobile player */}
+          {deviceCaptureAvailable && buttonVisible && buttonDisplayMode === '0' && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '8px', marginBottom: '10px' }}>
+              <Button
+                appearance="secondary"
+                icon={capturingKind === 'image' ? <Spinner size="tiny" /> : <CameraRegular />}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeviceCapture('image');
+                }}
+                disabled={!!capturingKind}
+              >
+                {getLocalizedString('TakePhoto', 'Take photo')}
+              </Button>
+              <Button
+                appearance="secondary"
+                icon={capturingKind === 'video' ? <Spinner size="tiny" /> : <VideoRegular />}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeviceCapture('video');
+                }}
+                disabled={!!capturingKind}
+              >
+                {getLocalizedString('RecordVideo', 'Record video')}
+              </Button>
+              <Button
+                appearance="secondary"
+                icon={capturingKind === 'audio' ? <Spinner size="tiny" /> : <MicRegular />}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDeviceCapture('audio');
+                }}
+                disabled={!!capturingKind}
+              >
+                {getLocalizedString('RecordAudio', 'Record audio')}
+              </Button>
+              {barcodeFileNamePattern && (
+                <Button
+                  appearance={scannedBarcode ? 'primary' : 'secondary'}
+                  icon={scanningBarcode ? <Spinner size="tiny" /> : <BarcodeScannerRegular />}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleScanBarcode();
+                  }}
+                  disabled={scanningBarcode || !!capturingKind}
+                >
+                  {getLocalizedString('ScanBarcode', 'Scan barcode')}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Barcode naming the files added next */}
+          {deviceCaptureAvailable && barcodeFileNamePattern && scannedBarcode && buttonDisplayMode === '0' && (
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '4px', marginBottom: '10px' }}>
+              <Caption1 style={{ color: '#605e5c' }}>
+                {getLocalizedString('Barcode', 'Barcode')}: <strong>{scannedBarcode}</strong>
+                {barcodeSubfolder && ` • ${getLocalizedString('UploadsTo', 'Uploads to')} ${getCombinedFolderPath([currentFolder, sanitizeBarcode(scannedBarcode)].join('/'))}`}
+              </Caption1>
+              <Button
+                appearance="subtle"
+                size="small"
+                icon={<DismissRegular />}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setScannedBarcode(null);
+                }}
+                title={getLocalizedString('ClearBarcode', 'Clear barcode')}
+                aria-label={getLocalizedString('ClearBarcode', 'Clear barcode')}
+              />
+            </div>
+          )}
           
           {buttonAllowDropFiles && buttonDisplayMode === '0' && (
             <Body1 style={{ color: '#605e5c', marginTop: '8px' }}>
@@ -1442,12 +2819,30 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
                 )}
               </Text>
               <div style={{ display: 'flex', gap: '8px' }}>
-                {!loadingExistingFiles && fileStates.some(fs => fs.status === 'pending' && fs.isValid) && buttonDisplayMode === '0' && (
+                <Button
+                  appearance="subtle"
+                  size="small"
+                  icon={fileViewMode === 'grid' ? <TextBulletListLtrRegular /> : <GridRegular />}
+                  onClick={() => setFileViewMode(prev => prev === 'grid' ? 'list' : 'grid')}
+                  title={fileViewMode === 'grid' ? getLocalizedString('ListView', 'List view') : getLocalizedString('GridView', 'Grid view')}
+                  aria-label={fileViewMode === 'grid' ? getLocalizedString('ListView', 'List view') : getLocalizedString('GridView', 'Grid view')}
+                />
+                {isUploadInProgress() && buttonDisplayMode === '0' && (
+                  <Button
+                    appearance="subtle"
+                    size="small"
+                    icon={<DismissCircleRegular />}
+                    onClick={cancelAllUploads}
+                  >
+                    {getLocalizedString('CancelAll', 'Cancel all')}
+                  </Button>
+                )}
+                {!loadingExistingFiles && fileStates.some(isUploadableFile) && buttonDisplayMode === '0' && (
                   <Button
                     appearance="primary"
                     size="small"
                     onClick={handleUploadAll}
-                    disabled={buttonLoadingState === 'loading' || !fileStates.some(fs => fs.status === 'pending' && fs.isValid)}
+                    disabled={buttonLoadingState === 'loading' || isUploadInProgress()}
                   >
                     {getLocalizedString('UploadAll', 'Upload All')}
                   </Button>
@@ -1467,8 +2862,149 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
               </div>
             </div>
 
+            {/* Batch progress */}
+            {uploadBatch.length > 1 && (() => {
+              const batchStats = getBatchTransferStats();
+              return (
+                <div style={{
+                  padding: '8px 16px',
+                  borderBottom: '1px solid #e1dfdd',
+                  flexShrink: 0
+                }}>
+                  <ProgressBar
+                    value={batchStats.totalBytes > 0 ? batchStats.sentBytes / batchStats.totalBytes : 0}
+                    color="brand"
+                  />
+                  <Caption1 style={{ color: '#605e5c', marginTop: '2px', display: 'block' }}>
+                    {getLocalizedString('UploadingBatch', 'Uploading batch')}: {formatTransferProgress(batchStats.sentBytes, batchStats.totalBytes, batchStats.bytesPerSecond, batchStats.secondsRemaining)}
+                  </Caption1>
+                </div>
+              );
+            })()}
+
+            {/* Move/copy batch progress */}
+            {transferBatch.length > 1 && (
+              <div style={{
+                padding: '8px 16px',
+                borderBottom: '1px solid #e1dfdd',
+                flexShrink: 0
+              }}>
+                <ProgressBar
+                  value={transferBatch.filter(fileName => fileTransfers[fileName]?.status !== 'inProgress').length / transferBatch.length}
+                  color="brand"
+                />
+                <Caption1 style={{ color: '#605e5c', marginTop: '2px', display: 'block' }}>
+                  {getLocalizedString('TransferringFiles', 'Transferring files')}: {transferBatch.filter(fileName => fileTransfers[fileName]?.status !== 'inProgress').length} / {transferBatch.length}
+                </Caption1>
+              </div>
+            )}
+
+            {/* Folder breadcrumbs and folder creation */}
+            {isStorageConfigured() && !(loadingExistingFiles && isInitialLoad) && (storageProvider!.createFolder || storageProvider!.listDeletedFiles || currentFolder || subfolders.length > 0) && (
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '4px 8px',
+                borderBottom: '1px solid #e1dfdd',
+                flexShrink: 0
+              }}>
+                <Breadcrumb size="small" style={{ flex: 1, minWidth: 0 }}>
+                  <BreadcrumbItem>
+                    <BreadcrumbButton
+                      icon={<FolderRegular />}
+                      current={!currentFolder}
+                      onClick={() => navigateToFolder('')}
+                    >
+                      {getCombinedFolderPath('') || getLocalizedString('Container', 'Container')}
+                    </BreadcrumbButton>
+                  </BreadcrumbItem>
+                  {currentFolder && currentFolder.split('/').map((folderName, index, folderNames) => (
+                    <React.Fragment key={`breadcrumb-${index}`}>
+                      <BreadcrumbDivider />
+                      <BreadcrumbItem>
+                        <BreadcrumbButton
+                          current={index === folderNames.length - 1}
+                          onClick={() => navigateToFolder(folderNames.slice(0, index + 1).join('/'))}
+                        >
+                          {folderName}
+                        </BreadcrumbButton>
+                      </BreadcrumbItem>
+                    </React.Fragment>
+                  ))}
+                </Breadcrumb>
+                {storageProvider!.createFolder && buttonDisplayMode === '0' && (
+                  newFolder ? (
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                      <Input
+                        size="small"
+                        value={newFolder.name}
+                        placeholder={getLocalizedString('FolderName', 'Folder name')}
+                        onChange={(event, data) => setNewFolder(prev => prev && { ...prev, name: data.value, error: undefined })}
+                        onKeyDown={(event) => {
+                          if (event.key === 'Enter') {
+                            handleCreateFolder();
+                          } else if (event.key === 'Escape') {
+                            setNewFolder(null);
+                          }
+                        }}
+                        disabled={newFolder.saving}
+                        title={newFolder.error}
+                        style={newFolder.error ? { borderColor: '#d13438' } : undefined}
+                        autoFocus
+                      />
+                      <Button
+                        appearance="subtle"
+                        size="small"
+                        icon={newFolder.saving ? <Spinner size="tiny" /> : <CheckmarkRegular />}
+                        onClick={handleCreateFolder}
+                        disabled={newFolder.saving}
+                        title={getLocalizedString('Save', 'Save')}
+                        style={{ color: '#107c10' }}
+                      />
+                      <Button
+                        appearance="subtle"
+                        size="small"
+                        icon={<DismissRegular />}
+                        onClick={() => setNewFolder(null)}
+                        disabled={newFolder.saving}
+                        title={getLocalizedString('Cancel', 'Cancel')}
+                        style={{ color: '#d13438' }}
+                      />
+                    </div>
+                  ) : (
+                    <Button
+                      appearance="subtle"
+                      size="small"
+                      icon={<FolderAddRegular />}
+                      onClick={() => setNewFolder({ name: '' })}
+                      disabled={isUploadInProgress()}
+                    >
+                      {getLocalizedString('NewFolder', 'New folder')}
+                    </Button>
+                  )
+                )}
+                {storageProvider!.listDeletedFiles && buttonDisplayMode === '0' && (
+                  <Button
+                    appearance="subtle"
+                    size="small"
+                    icon={<BinRecycleRegular />}
+                    onClick={openRecycleBin}
+                  >
+                    {getLocalizedString('RecentlyDeleted', 'Recently deleted')}
+                  </Button>
+                )}
+              </div>
+            )}
+            {newFolder?.error && (
+              <Caption1 style={{ color: '#d13438', padding: '4px 16px', flexShrink: 0 }}>
+                {newFolder.error}
+              </Caption1>
+            )}
+
             {/* File items container */}
-            <div style={{ 
+            <div onScroll={handleFileListScroll} style={{ 
+              position: 'relative',
               flex: '1 1 auto',
               overflowY: 'auto',
               minHeight: '100px',
@@ -1511,7 +3047,7 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
                     </div>
                   ))}
                 </div>
-              ) : existingFiles.length === 0 && fileStates.length === 0 && !loadingExistingFiles ? (
+              ) : existingFiles.length === 0 && subfolders.length === 0 && fileStates.length === 0 && !loadingExistingFiles ? (
                 /* No Files Message */
                 <div style={{
                   display: 'flex',
@@ -1535,49 +3071,559 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
                 </div>
               ) : (
                 <>
+                  {/* Subfolders of the folder shown */}
+                  {subfolders.map(folderName => (
+                    <div key={`folder-${folderName}`} style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      padding: '8px 16px',
+                      borderBottom: '1px solid #f3f2f1',
+                      backgroundColor: '#f9f9f9'
+                    }}>
+                      <Button
+                        appearance="transparent"
+                        icon={<FolderRegular />}
+                        onClick={() => navigateToFolder([currentFolder, folderName].filter(Boolean).join('/'))}
+                        style={{ fontWeight: '600', justifyContent: 'flex-start', minWidth: 0 }}
+                      >
+                        {folderName}
+                      </Button>
+                    </div>
+                  ))}
+
                   {/* Existing Files Section */}
                   {existingFiles.length > 0 && (
                 <>
                   <div style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px',
                     padding: '8px 16px',
                     backgroundColor: '#f8f8f8',
                     borderBottom: '1px solid #e1dfdd'
                   }}>
-                    <Caption1 style={{ color: '#605e5c', fontWeight: '600' }}>
+                    <Checkbox
+                      checked={selectedExistingFiles.length === 0
+                        ? false
+                        : selectedExistingFiles.length === visibleExistingFiles.length ? true : 'mixed'}
+                      onChange={(event, data) => toggleAllExistingFilesSelection(data.checked === true)}
+                      aria-label={getLocalizedString('SelectAll', 'Select all')}
+                      title={getLocalizedString('SelectAll', 'Select all')}
+                    />
+                    <Caption1 style={{ flex: 1, color: '#605e5c', fontWeight: '600' }}>
                       {getLocalizedString('ExistingFilesIn', 'Existing Files in')} {getCombinedFolderPath() || getLocalizedString('Container', 'Container')}
                     </Caption1>
+                    {/* Bulk action bar of the selected files */}
+                    {selectedExistingFiles.length > 0 && (
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <Caption1 style={{ color: '#605e5c' }}>
+                          {selectedExistingFiles.length} {getLocalizedString('Selected', 'selected')}
+                        </Caption1>
+                        {showBulkDeleteConfirmation ? (
+                          <>
+                            <Caption1 style={{ color: '#d13438' }}>
+                              {getLocalizedString('ConfirmBulkDelete', 'Delete the selected files?')}
+                            </Caption1>
+                            <Button
+                              appearance="subtle"
+                              size="small"
+                              icon={<CheckmarkRegular />}
+                              onClick={handleBulkDelete}
+                              style={{ color: '#107c10' }}
+                            >
+                              {getLocalizedString('Yes', 'Yes')}
+                            </Button>
+                            <Button
+                              appearance="subtle"
+                              size="small"
+                              icon={<DismissRegular />}
+                              onClick={() => setShowBulkDeleteConfirmation(false)}
+                              style={{ color: '#d13438' }}
+                            >
+                              {getLocalizedString('No', 'No')}
+                            </Button>
+                          </>
+                        ) : (
+                          <>
+                            <Button
+                              appearance="subtle"
+                              size="small"
+                              icon={<FolderZipRegular />}
+                              onClick={() => handleDownloadArchive(visibleExistingFiles.filter(file => selectedExistingFiles.includes(file.name)))}
+                              disabled={!!archiveDownload}
+                            >
+                              {getLocalizedString('DownloadSelected', 'Download selected')}
+                            </Button>
+                            {buttonDisplayMode === '0' && (
+                              <>
+                                {isStorageConfigured() && storageProvider!.moveFile && (
+                                  <Button
+                                    appearance="subtle"
+                                    size="small"
+                                    icon={<ArrowMoveRegular />}
+                                    onClick={() => openTransferDialog([...selectedExistingFiles], 'Move')}
+                                    disabled={selectedExistingFiles.some(fileName => deletingFiles[fileName] || fileTransfers[fileName]?.status === 'inProgress')}
+                                  >
+                                    {getLocalizedString('Move', 'Move')}
+                                  </Button>
+                                )}
+                                <Button
+                                  appearance="subtle"
+                                  size="small"
+                                  icon={<DeleteRegular />}
+                                  onClick={() => setShowBulkDeleteConfirmation(true)}
+                                  disabled={selectedExistingFiles.some(fileName => deletingFiles[fileName] || fileTransfers[fileName]?.status === 'inProgress')}
+                                >
+                                  {getLocalizedString('Delete', 'Delete')}
+                                </Button>
+                              </>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    )}
+                    {selectedExistingFiles.length === 0 && (
+                      <Button
+                        appearance="subtle"
+                        size="small"
+                        icon={<FolderZipRegular />}
+                        onClick={handleDownloadAll}
+                        disabled={!!archiveDownload || visibleExistingFiles.length === 0}
+                      >
+                        {getLocalizedString('DownloadAll', 'Download all')}
+                      </Button>
+                    )}
+                  </div>
+                  {archiveDownload && (
+                    <div style={{ padding: '8px 16px', borderBottom: '1px solid #e1dfdd' }}>
+                      <ProgressBar
+                        color="brand"
+                        value={archiveDownload.totalFiles > 0 ? archiveDownload.completedFiles / archiveDownload.totalFiles : undefined}
+                      />
+                      <Caption1 style={{ color: '#605e5c', marginTop: '2px' }}>
+                        {getLocalizedString('CreatingArchive', 'Creating ZIP archive')}
+                        {archiveDownload.totalFiles > 0 && `: ${archiveDownload.completedFiles} / ${archiveDownload.totalFiles}`}
+                      </Caption1>
+                    </div>
+                  )}
+                  {/* Search, sort and filters of the existing files */}
+                  <div style={{
+                    display: 'flex',
+                    flexWrap: 'wrap',
+                    alignItems: 'center',
+                    gap: '8px',
+                    padding: '8px 16px',
+                    borderBottom: '1px solid #e1dfdd'
+                  }}>
+                    <Input
+                      size="small"
+                      contentBefore={<SearchRegular />}
+                      value={existingFilesSearch}
+                      onChange={(event, data) => setExistingFilesSearch(data.value)}
+                      placeholder={getLocalizedString('SearchFiles', 'Search files')}
+                      aria-label={getLocalizedString('SearchFiles', 'Search files')}
+                      style={{ flex: 1, minWidth: '120px' }}
+                    />
+                    <Dropdown
+                      size="small"
+                      value={existingFilesSort ? existingFilesSortLabels[existingFilesSort.field] : ''}
+                      selectedOptions={existingFilesSort ? [existingFilesSort.field] : []}
+                      onOptionSelect={(event, data) => changeExistingFilesSort({
+                        field: data.optionValue as IExistingFilesSort['field'],
+                        direction: existingFilesSort?.direction || 'asc'
+                      })}
+                      placeholder={getLocalizedString('SortBy', 'Sort by')}
+                      aria-label={getLocalizedString('SortBy', 'Sort by')}
+                      style={{ minWidth: '130px' }}
+                    >
+                      {Object.entries(existingFilesSortLabels).map(([field, label]) => (
+                        <Option key={field} value={field}>{label}</Option>
+                      ))}
+                    </Dropdown>
+                    <Button
+                      appearance="subtle"
+                      size="small"
+                      icon={existingFilesSort?.direction === 'desc' ? <ArrowSortDownRegular /> : <ArrowSortUpRegular />}
+                      onClick={() => existingFilesSort && changeExistingFilesSort({
+                        ...existingFilesSort,
+                        direction: existingFilesSort.direction === 'asc' ? 'desc' : 'asc'
+                      })}
+                      disabled={!existingFilesSort}
+                      title={existingFilesSort?.direction === 'desc'
+                        ? getLocalizedString('SortDescending', 'Descending')
+                        : getLocalizedString('SortAscending', 'Ascending')}
+                    />
                   </div>
-                  {existingFiles.map((existingFile, index) => (
-                    <div key={`existing-${existingFile.name}-${index}`} style={{
+                  {(existingFileTypes.length > 1 || existingFiles.length > 1) && (
+                    <div style={{
                       display: 'flex',
+                      flexWrap: 'wrap',
                       alignItems: 'center',
-                      padding: '12px 16px',
+                      gap: '4px',
+                      padding: '4px 16px 8px',
+                      borderBottom: '1px solid #e1dfdd'
+                    }}>
+                      {existingFileTypes.length > 1 && existingFileTypes.map(fileType => (
+                        <ToggleButton
+                          key={`type-${fileType}`}
+                          size="small"
+                          shape="circular"
+                          checked={existingFilesTypeFilter.includes(fileType)}
+                          onClick={() => toggleExistingFilesTypeFilter(fileType)}
+                        >
+                          {fileType ? fileType.toUpperCase() : getLocalizedString('OtherFileType', 'Other')}
+                        </ToggleButton>
+                      ))}
+                      {EXISTING_FILES_DATE_RANGES.map(range => (
+                        <ToggleButton
+                          key={`date-${range.key}`}
+                          size="small"
+                          shape="circular"
+                          checked={existingFilesDateRange === range.days}
+                          onClick={() => setExistingFilesDateRange(prev => prev === range.days ? null : range.days)}
+                        >
+                          {getLocalizedString(range.key, range.label)}
+                        </ToggleButton>
+                      ))}
+                      {visibleExistingFiles.length !== existingFiles.length && (
+                        <Caption1 style={{ color: '#605e5c', marginLeft: '4px' }}>
+                          {visibleExistingFiles.length} / {existingFiles.length}
+                        </Caption1>
+                      )}
+                    </div>
+                  )}
+                  {visibleExistingFiles.length === 0 && (
+                    <div style={{ padding: '12px 16px', borderBottom: '1px solid #f3f2f1' }}>
+                      <Caption1 style={{ color: '#605e5c' }}>
+                        {getLocalizedString('NoMatchingFiles', 'No files match the search and filters')}
+                      </Caption1>
+                    </div>
+                  )}
+                  <div ref={existingRowsRef}>
+                  {existingRowsStart > 0 && (
+                    <div style={{ height: `${existingRowsStart * existingRowHeight}px` }} />
+                  )}
+                  {fileViewMode === 'grid' ? (
+                    <div style={{
+                      display: 'grid',
+                      gridTemplateColumns: `repeat(${existingFilesPerRow}, minmax(0, 1fr))`,
+                      gridAutoRows: `${FILE_TILE_HEIGHT - FILE_TILE_GAP}px`,
+                      gap: `${FILE_TILE_GAP}px`,
+                      padding: `${FILE_TILE_GAP / 2}px 16px`
+                    }}>
+                      {renderedExistingFiles.map((existingFile, index) => {
+                        const FileTypeIcon = getFileTypeIconComponent(existingFile.name);
+                        const thumbnail = hasExistingThumbnail(existingFile) ? getCachedThumbnail(getExistingThumbnailKey(existingFile)) : null;
+                        const canPreview = !!getPreviewKind(existingFile.name, existingFile.metadata?.contentType);
+                        const isSelected = selectedExistingFiles.includes(existingFile.name);
+                        return (
+                          <div key={`existing-tile-${existingFile.name}-${existingRowsStart * existingFilesPerRow + index}`} style={{
+                            position: 'relative',
+                            display: 'flex',
+                            flexDirection: 'column',
+                            border: `1px solid ${isSelected ? '#0078d4' : '#e1dfdd'}`,
+                            borderRadius: '8px',
+                            backgroundColor: '#f9f9f9',
+                            overflow: 'hidden'
+                          }}>
+                            {/* Thumbnail opens the preview, or downloads files that cannot be previewed */}
+                            <Button
+                              appearance="transparent"
+                              onClick={() => canPreview ? openPreview(existingFile.name) : handleViewExistingFile(existingFile.name)}
+                              title={canPreview ? getLocalizedString('Preview', 'Preview') : getLocalizedString('View', 'Download')}
+                              style={{ flex: 1, minHeight: 0, width: '100%', padding: '4px', borderRadius: 0, backgroundColor: 'white' }}
+                            >
+                              {thumbnail ? (
+                                <img src={thumbnail} alt={existingFile.name} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                              ) : thumbnail === undefined ? (
+                                <Spinner size="tiny" />
+                              ) : (
+                                <FileTypeIcon style={{ fontSize: '48px', color: '#605e5c' }} />
+                              )}
+                            </Button>
+                            <Checkbox
+                              checked={isSelected}
+                              onChange={(event, data) => toggleExistingFileSelection(existingFile.name, data.checked === true)}
+                              aria-label={existingFile.name}
+                              style={{ position: 'absolute', top: 0, left: 0 }}
+                            />
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 4px 4px 8px', borderTop: '1px solid #f3f2f1' }}>
+                              <div style={{ flex: 1, minWidth: 0 }}>
+                                {renamingFile?.fileName === existingFile.name ? (
+                                  /* Inline rename: Enter saves, Escape cancels */
+                                  <Input
+                                    size="small"
+                                    value={renamingFile.newFileName}
+                                    onChange={(event, data) => setRenamingFile(prev => prev && { ...prev, newFileName: data.value, error: undefined })}
+                                    onKeyDown={(event) => {
+                                      if (event.key === 'Enter') {
+                                        handleRenameExistingFile();
+                                      } else if (event.key === 'Escape') {
+                                        setRenamingFile(null);
+                                      }
+                                    }}
+                                    disabled={renamingFile.saving}
+                                    aria-label={getLocalizedString('Rename', 'Rename')}
+                                    style={{ width: '100%', minWidth: 0 }}
+                                    autoFocus
+                                  />
+                                ) : (
+                                  <Text
+                                    size={200}
+                                    weight="semibold"
+                                    title={existingFile.name}
+                                    style={{ display: 'block', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                                  >
+                                    {existingFile.name}
+                                  </Text>
+                                )}
+                                <Caption2
+                                  title={(renamingFile?.fileName === existingFile.name && renamingFile.error) || bulkActionErrors[existingFile.name] || fileTransfers[existingFile.name]?.error}
+                                  style={{
+                                    display: 'block',
+                                    overflow: 'hidden',
+                                    textOverflow: 'ellipsis',
+                                    whiteSpace: 'nowrap',
+                                    color: (renamingFile?.fileName === existingFile.name && renamingFile.error) || bulkActionErrors[existingFile.name] || fileTransfers[existingFile.name]?.status === 'failed' ? '#d13438' : '#605e5c'
+                                  }}
+                                >
+                                  {(renamingFile?.fileName === existingFile.name && renamingFile.error)
+                                    || bulkActionErrors[existingFile.name]
+                                    || (fileTransfers[existingFile.name]?.status === 'failed' && fileTransfers[existingFile.name].error)
+                                    || (fileTransfers[existingFile.name]?.status === 'inProgress' && (fileTransfers[existingFile.name].operation === 'Move'
+                                      ? getLocalizedString('Moving', 'Moving...')
+                                      : getLocalizedString('Copying', 'Copying...')))
+                                    || formatFileSize(existingFile.size)}
+                                </Caption2>
+                              </div>
+                              {showDeleteConfirmation[existingFile.name] ? (
+                                <>
+                                  <Button
+                                    appearance="subtle"
+                                    size="small"
+                                    icon={deletingFiles[existingFile.name] ? <Spinner size="tiny" /> : <CheckmarkRegular />}
+                                    onClick={() => confirmDelete(existingFile.name)}
+                                    disabled={deletingFiles[existingFile.name]}
+                                    title={getLocalizedString('Delete', 'Delete')}
+                                    style={{ color: '#107c10' }}
+                                  />
+                                  <Button
+                                    appearance="subtle"
+                                    size="small"
+                                    icon={<DismissRegular />}
+                                    onClick={() => cancelDeleteConfirmation(existingFile.name)}
+                                    disabled={deletingFiles[existingFile.name]}
+                                    title={getLocalizedString('Cancel', 'Cancel')}
+                                    style={{ color: '#d13438' }}
+                                  />
+                                </>
+                              ) : (
+                                <>
+                                  <Button
+                                    appearance="subtle"
+                                    size="small"
+                                    icon={viewingFiles[existingFile.name] ? <Spinner size="tiny" /> : <ArrowDownloadRegular />}
+                                    onClick={() => handleViewExistingFile(existingFile.name)}
+                                    disabled={viewingFiles[existingFile.name]}
+                                    title={getLocalizedString('View', 'Download')}
+                                  />
+                                  {/* The actions of list rows, in a menu to fit the tile */}
+                                  <Menu>
+                                    <MenuTrigger disableButtonEnhancement>
+                                      <Button
+                                        appearance="subtle"
+                                        size="small"
+                                        icon={<MoreHorizontalRegular />}
+                                        disabled={deletingFiles[existingFile.name]}
+                                        title={getLocalizedString('MoreActions', 'More actions')}
+                                      />
+                                    </MenuTrigger>
+                                    <MenuPopover>
+                                      <MenuList>
+                                        {canPreview && (
+                                          <MenuItem icon={<DocumentSearchRegular />} onClick={() => openPreview(existingFile.name)}>
+                                            {getLocalizedString('Preview', 'Preview')}
+                                          </MenuItem>
+                                        )}
+                                        {isStorageConfigured() && storageProvider!.listVersions && (
+                                          <Menu onOpenChange={(event, data) => data.open && loadFileVersions(existingFile.name)}>
+                                            <MenuTrigger disableButtonEnhancement>
+                                              <MenuItem icon={<HistoryRegular />}>
+                                                {getLocalizedString('Versions', 'Versions')}
+                                              </MenuItem>
+                                            </MenuTrigger>
+                                            <MenuPopover style={{ minWidth: '280px', maxHeight: '320px', overflowY: 'auto' }}>
+                                              {renderFileVersions(existingFile.name)}
+                                            </MenuPopover>
+                                          </Menu>
+                                        )}
+                                        {buttonDisplayMode === '0' && isStorageConfigured() && storageProvider!.renameFile && (
+                                          <MenuItem
+                                            icon={<RenameRegular />}
+                                            onClick={() => setRenamingFile({ fileName: existingFile.name, newFileName: existingFile.name })}
+                                          >
+                                            {getLocalizedString('Rename', 'Rename')}
+                                          </MenuItem>
+                                        )}
+                                        {buttonDisplayMode === '0' && isStorageConfigured() && storageProvider!.moveFile && (
+                                          <MenuItem
+                                            icon={<ArrowMoveRegular />}
+                                            onClick={() => openTransferDialog([existingFile.name], 'Move')}
+                                            disabled={fileTransfers[existingFile.name]?.status === 'inProgress'}
+                                          >
+                                            {getLocalizedString('Move', 'Move')}
+                                          </MenuItem>
+                                        )}
+                                        {buttonDisplayMode === '0' && isStorageConfigured() && storageProvider!.copyFile && (
+                                          <MenuItem
+                                            icon={<CopyRegular />}
+                                            onClick={() => openTransferDialog([existingFile.name], 'Copy')}
+                                            disabled={fileTransfers[existingFile.name]?.status === 'inProgress'}
+                                          >
+                                            {getLocalizedString('Copy', 'Copy')}
+                                          </MenuItem>
+                                        )}
+                                        {buttonDisplayMode === '0' && (
+                                          <MenuItem icon={<DeleteRegular />} onClick={() => showDeleteConfirmationButtons(existingFile.name)}>
+                                            {getLocalizedString('Delete', 'Delete')}
+                                          </MenuItem>
+                                        )}
+                                      </MenuList>
+                                    </MenuPopover>
+                                  </Menu>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : renderedExistingFiles.map((existingFile, index) => (
+                    <div key={`existing-${existingFile.name}-${existingRowsStart + index}`} style={{
+                      position: 'relative',
+                      display: 'flex',
+                      alignItems: 'center',
+                      height: `${EXISTING_FILE_ROW_HEIGHT}px`,
+                      boxSizing: 'border-box',
+                      padding: '0 16px',
                       borderBottom: '1px solid #f3f2f1',
                       backgroundColor: '#f9f9f9'
                     }}>
+                      <Checkbox
+                        checked={selectedExistingFiles.includes(existingFile.name)}
+                        onChange={(event, data) => toggleExistingFileSelection(existingFile.name, data.checked === true)}
+                        aria-label={existingFile.name}
+                        style={{ marginRight: '8px' }}
+                      />
                       {/* File Info */}
                       <div style={{ flex: 1, minWidth: 0 }}>
-                        <div style={{ display: 'flex', alignItems: 'center', marginBottom: '4px' }}>
-                          <Text 
-                            style={{ 
-                              fontWeight: '600', 
-                              overflow: 'hidden',
-                              textOverflow: 'ellipsis',
-                              whiteSpace: 'nowrap',
-                              marginRight: '8px'
-                            }}
-                          >
-                            {existingFile.name}
-                          </Text>
-                          <CheckmarkCircleFilled style={{ color: '#0078d4', fontSize: '16px' }} />
-                        </div>
-                        <Caption1 style={{ color: '#605e5c' }}>
-                          {formatFileSize(existingFile.size)} • {getLocalizedString('Uploaded', 'Uploaded')} {existingFile.lastModified.toLocaleDateString()}
+                        {renamingFile?.fileName === existingFile.name ? (
+                          /* Inline rename: Enter saves, Escape cancels */
+                          <div style={{ display: 'flex', alignItems: 'center', gap: '4px', marginBottom: '4px' }}>
+                            <Input
+                              size="small"
+                              value={renamingFile.newFileName}
+                              onChange={(event, data) => setRenamingFile(prev => prev && { ...prev, newFileName: data.value, error: undefined })}
+                              onKeyDown={(event) => {
+                                if (event.key === 'Enter') {
+                                  handleRenameExistingFile();
+                                } else if (event.key === 'Escape') {
+                                  setRenamingFile(null);
+                                }
+                              }}
+                              disabled={renamingFile.saving}
+                              style={{ flex: 1, minWidth: 0 }}
+                              autoFocus
+                            />
+                            <Button
+                              appearance="subtle"
+                              size="small"
+                              icon={renamingFile.saving ? <Spinner size="tiny" /> : <CheckmarkRegular />}
+                              onClick={handleRenameExistingFile}
+                              disabled={renamingFile.saving}
+                              title={getLocalizedString('Save', 'Save')}
+                              style={{ color: '#107c10' }}
+                            />
+                            <Button
+                              appearance="subtle"
+                              size="small"
+                              icon={<DismissRegular />}
+                              onClick={() => setRenamingFile(null)}
+                              disabled={renamingFile.saving}
+                              title={getLocalizedString('Cancel', 'Cancel')}
+                              style={{ color: '#d13438' }}
+                            />
+                          </div>
+                        ) : (
+                          <div style={{ display: 'flex', alignItems: 'center', marginBottom: '4px' }}>
+                            <Text 
+                              style={{ 
+                                fontWeight: '600', 
+                                overflow: 'hidden',
+                                textOverflow: 'ellipsis',
+                                whiteSpace: 'nowrap',
+                                marginRight: '8px'
+                              }}
+                            >
+                              {existingFile.name}
+                            </Text>
+                            <CheckmarkCircleFilled style={{ color: '#0078d4', fontSize: '16px' }} />
+                          </div>
+                        )}
+                        {/* A single line, so every row keeps the same height */}
+                        <Caption1
+                          title={(renamingFile?.fileName === existingFile.name && renamingFile.error) || bulkActionErrors[existingFile.name] || fileTransfers[existingFile.name]?.error}
+                          style={{
+                            display: 'block',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap',
+                            color: renamingFile?.fileName === existingFile.name && renamingFile.error ? '#d13438' : '#605e5c'
+                          }}
+                        >
+                          {renamingFile?.fileName === existingFile.name && renamingFile.error
+                            ? renamingFile.error
+                            : fileTransfers[existingFile.name]?.status === 'inProgress'
+                            ? fileTransfers[existingFile.name].operation === 'Move'
+                              ? getLocalizedString('Moving', 'Moving...')
+                              : getLocalizedString('Copying', 'Copying...')
+                            : `${formatFileSize(existingFile.size)} • ${getLocalizedString('Uploaded', 'Uploaded')} ${existingFile.lastModified.toLocaleDateString()}`}
+                          {fileTransfers[existingFile.name]?.status === 'failed' && (
+                            <span style={{ color: '#d13438' }}>
+                              {` • ${fileTransfers[existingFile.name].error}`}
+                            </span>
+                          )}
+                          {bulkActionErrors[existingFile.name] && (
+                            <span style={{ color: '#d13438' }}>
+                              {` • ${bulkActionErrors[existingFile.name]}`}
+                            </span>
+                          )}
+                          {/* Capture metadata ends the line and is cut first when it is too long */}
+                          {formatCaptureMetadata(existingFile.metadata) && (
+                            <span title={formatCaptureMetadata(existingFile.metadata) || undefined}>
+                              {' • '}
+                              <LocationRegular style={{ verticalAlign: 'text-bottom' }} />
+                              {` ${formatCaptureMetadata(existingFile.metadata)}`}
+                            </span>
+                          )}
                         </Caption1>
+                        {fileTransfers[existingFile.name]?.status === 'inProgress' && (
+                          <ProgressBar color="brand" style={{ position: 'absolute', left: 0, right: 0, bottom: 0 }} />
+                        )}
                       </div>
                       
                       {/* Action buttons */}
                       <div style={{ display: 'flex', gap: '8px' }}>
+                        {getPreviewKind(existingFile.name, existingFile.metadata?.contentType) && (
+                          <Button
+                            appearance="subtle"
+                            size="small"
+                            icon={<DocumentSearchRegular />}
+                            onClick={() => openPreview(existingFile.name)}
+                          >
+                            {getLocalizedString('Preview', 'Preview')}
+                          </Button>
+                        )}
                         <Button
                           appearance="subtle"
                           size="small"
@@ -1587,8 +3633,56 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
                         >
                           {viewingFiles[existingFile.name] ? getLocalizedString('Generating', 'Downloading...') : getLocalizedString('View', 'Download')}
                         </Button>
+                        {isStorageConfigured() && storageProvider!.listVersions && (
+                          <Popover
+                            positioning="below-end"
+                            onOpenChange={(event, data) => data.open && loadFileVersions(existingFile.name)}
+                          >
+                            <PopoverTrigger disableButtonEnhancement>
+                              <Button appearance="subtle" size="small" icon={<HistoryRegular />}>
+                                {getLocalizedString('Versions', 'Versions')}
+                              </Button>
+                            </PopoverTrigger>
+                            <PopoverSurface style={{ minWidth: '280px', maxHeight: '320px', overflowY: 'auto' }}>
+                              {renderFileVersions(existingFile.name)}
+                            </PopoverSurface>
+                          </Popover>
+                        )}
                         {buttonDisplayMode === '0' && (
                           <>
+                            {isStorageConfigured() && storageProvider!.renameFile && renamingFile?.fileName !== existingFile.name && (
+                              <Button
+                                appearance="subtle"
+                                size="small"
+                                icon={<RenameRegular />}
+                                onClick={() => setRenamingFile({ fileName: existingFile.name, newFileName: existingFile.name })}
+                                disabled={deletingFiles[existingFile.name]}
+                              >
+                                {getLocalizedString('Rename', 'Rename')}
+                              </Button>
+                            )}
+                            {isStorageConfigured() && storageProvider!.moveFile && (
+                              <Button
+                                appearance="subtle"
+                                size="small"
+                                icon={<ArrowMoveRegular />}
+                                onClick={() => openTransferDialog([existingFile.name], 'Move')}
+                                disabled={deletingFiles[existingFile.name] || fileTransfers[existingFile.name]?.status === 'inProgress'}
+                              >
+                                {getLocalizedString('Move', 'Move')}
+                              </Button>
+                            )}
+                            {isStorageConfigured() && storageProvider!.copyFile && (
+                              <Button
+                                appearance="subtle"
+                                size="small"
+                                icon={<CopyRegular />}
+                                onClick={() => openTransferDialog([existingFile.name], 'Copy')}
+                                disabled={deletingFiles[existingFile.name] || fileTransfers[existingFile.name]?.status === 'inProgress'}
+                              >
+                                {getLocalizedString('Copy', 'Copy')}
+                              </Button>
+                            )}
                             {!showDeleteConfirmation[existingFile.name] ? (
                               <Button
                                 appearance="subtle"
@@ -1628,6 +3722,22 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
                       </div>
                     </div>
                   ))}
+                  {existingRowsEnd < existingRowCount && (
+                    <div style={{ height: `${(existingRowCount - existingRowsEnd) * existingRowHeight}px` }} />
+                  )}
+                  </div>
+                  {/* Next page of a folder listed in pages, also loaded when scrolling near the end */}
+                  {existingFilesContinuationToken && (
+                    <div style={{ display: 'flex', justifyContent: 'center', padding: '8px 16px', borderBottom: '1px solid #f3f2f1' }}>
+                      {loadingMoreExistingFiles ? (
+                        <Spinner size="tiny" label={getLocalizedString('LoadingMoreFiles', 'Loading more files...')} />
+                      ) : (
+                        <Button appearance="subtle" size="small" onClick={loadMoreExistingFiles}>
+                          {getLocalizedString('LoadMoreFiles', 'Load more files')}
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </>
               )}
               
@@ -1645,7 +3755,89 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
                       </Caption1>
                     </div>
                   )}
-                  {fileStates.map((fileState, index) => (
+                  {fileViewMode === 'grid' ? (
+                    <div style={{
+                      display: 'grid',
+                      gridTemplateColumns: `repeat(auto-fill, minmax(${FILE_TILE_WIDTH - FILE_TILE_GAP}px, 1fr))`,
+                      gridAutoRows: `${FILE_TILE_HEIGHT - FILE_TILE_GAP}px`,
+                      gap: `${FILE_TILE_GAP}px`,
+                      padding: `${FILE_TILE_GAP}px 16px`
+                    }}>
+                      {fileStates.map((fileState, index) => {
+                        const FileTypeIcon = getFileTypeIconComponent(fileState.file.name);
+                        const thumbnail = getPreviewKind(fileState.file.name, fileState.file.type) === 'image' ? getFileThumbnail(fileState.file) : null;
+                        const hasError = fileState.status === 'failed' || fileState.status === 'invalid';
+                        return (
+                          <div key={`new-tile-${fileState.file.name}-${index}`} style={{
+                            display: 'flex',
+                            flexDirection: 'column',
+                            border: `1px solid ${hasError ? '#d13438' : '#e1dfdd'}`,
+                            borderRadius: '8px',
+                            backgroundColor: fileState.status === 'invalid' ? '#fef7f7' : 'transparent',
+                            overflow: 'hidden'
+                          }}>
+                            <div style={{ flex: 1, minHeight: 0, display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '4px', backgroundColor: 'white' }}>
+                              {thumbnail ? (
+                                <img src={thumbnail} alt={fileState.file.name} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                              ) : thumbnail === undefined ? (
+                                <Spinner size="tiny" />
+                              ) : (
+                                <FileTypeIcon style={{ fontSize: '48px', color: '#605e5c' }} />
+                              )}
+                            </div>
+                            {fileState.status === 'uploading' && (
+                              <ProgressBar value={fileState.progress / 100} color="brand" />
+                            )}
+                            <div style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 4px 4px 8px', borderTop: '1px solid #f3f2f1' }}>
+                              <div style={{ flex: 1, minWidth: 0 }}>
+                                <Text
+                                  size={200}
+                                  weight="semibold"
+                                  title={fileState.file.name}
+                                  style={{ display: 'block', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                                >
+                                  {fileState.file.name}
+                                </Text>
+                                <Caption2
+                                  title={hasError ? fileState.error : undefined}
+                                  style={{ display: 'block', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: hasError ? '#d13438' : '#605e5c' }}
+                                >
+                                  {fileState.status === 'uploading'
+                                    ? `${fileState.progress}%`
+                                    : hasError
+                                    ? fileState.error || (fileState.status === 'invalid' ? getLocalizedString('InvalidFileType', 'Invalid file type') : getLocalizedString('UploadFailed', 'Upload failed'))
+                                    : formatFileSize(fileState.file.size)}
+                                </Caption2>
+                              </div>
+                              {fileState.status === 'completed' && (
+                                <CheckmarkCircleFilled style={{ color: '#107c10', fontSize: '16px', flexShrink: 0 }} />
+                              )}
+                              {fileState.status === 'queued' && (
+                                <CloudOffFilled style={{ color: '#8a8886', fontSize: '16px', flexShrink: 0 }} />
+                              )}
+                              {fileState.status === 'uploading' && buttonDisplayMode === '0' && (
+                                <Button
+                                  appearance="subtle"
+                                  size="small"
+                                  icon={<DismissCircleRegular />}
+                                  onClick={() => cancelUpload(fileState.file.name)}
+                                  title={getLocalizedString('CancelUpload', 'Cancel upload')}
+                                />
+                              )}
+                              {(fileState.status === 'pending' || fileState.status === 'invalid' || fileState.status === 'cancelled' || fileState.status === 'queued' || fileState.status === 'skipped') && buttonDisplayMode === '0' && (
+                                <Button
+                                  appearance="subtle"
+                                  size="small"
+                                  icon={<DismissRegular />}
+                                  onClick={() => removeFile(fileState.file.name)}
+                                />
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : fileStates.map((fileState, index) => (
                     <div key={`new-${fileState.file.name}-${index}`} style={{
                       display: 'flex',
                       alignItems: 'center',
@@ -1678,14 +3870,29 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
                           {fileState.status === 'invalid' && (
                             <ErrorCircleFilled style={{ color: '#d13438', fontSize: '16px' }} />
                           )}
+                          {fileState.status === 'cancelled' && (
+                            <DismissCircleFilled style={{ color: '#8a8886', fontSize: '16px' }} />
+                          )}
+                          {fileState.status === 'queued' && (
+                            <CloudOffFilled style={{ color: '#8a8886', fontSize: '16px' }} />
+                          )}
+                          {fileState.status === 'skipped' && (
+                            <SubtractCircleFilled style={{ color: '#8a8886', fontSize: '16px' }} />
+                          )}
                         </div>
                         <Caption1 style={{ color: fileState.status === 'invalid' ? '#d13438' : '#605e5c' }}>
                           {formatFileSize(fileState.file.size)}
+                          {(fileState.folderPath || fileState.targetFolder) && ` • ${getLocalizedString('UploadsTo', 'Uploads to')} ${[fileState.folderPath, fileState.targetFolder].filter(Boolean).join('/')}`}
                           {fileState.status === 'completed' && ` • ${getLocalizedString('FileUploadedSuccessfully', 'File uploaded successfully')}`}
                           {fileState.status === 'failed' && ` • ${fileState.error || getLocalizedString('UploadFailed', 'Upload failed')}`}
+                          {fileState.status === 'failed' && (fileState.attempts ?? 1) > 1 && ` (${fileState.attempts} ${getLocalizedString('Attempts', 'attempts')})`}
                           {fileState.status === 'pending' && ` • ${getLocalizedString('ReadyToUpload', 'Ready to upload')}`}
                           {fileState.status === 'uploading' && ` • ${getLocalizedString('Uploading', 'Uploading...')}`}
+                          {fileState.status === 'uploading' && (fileState.attempts ?? 1) > 1 && ` • ${getLocalizedString('RetryAttempt', 'Retry attempt')} ${fileState.attempts}/${getMaxRetryAttempts()}`}
                           {fileState.status === 'invalid' && ` • ${fileState.error || getLocalizedString('InvalidFileType', 'Invalid file type')}`}
+                          {fileState.status === 'cancelled' && ` • ${getLocalizedString('UploadCancelled', 'Upload cancelled')}`}
+                          {fileState.status === 'queued' && ` • ${getLocalizedString('QueuedOffline', 'Queued offline - uploads when back online')}`}
+                          {fileState.status === 'skipped' && ` • ${getLocalizedString('SkippedExistingFile', 'Skipped - a file with this name already exists')}`}
                         </Caption1>
                         
                         {/* Progress Bar */}
@@ -1696,7 +3903,7 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
                               color="brand"
                             />
                             <Caption1 style={{ color: '#605e5c', marginTop: '2px' }}>
-                              {fileState.progress}%
+                              {fileState.progress}% • {formatTransferProgress(fileState.bytesUploaded || 0, fileState.file.size, fileState.bytesPerSecond, fileState.secondsRemaining)}
                             </Caption1>
                           </div>
                         )}
@@ -1713,8 +3920,22 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
                         )}
                       </div>
 
-                      {/* Remove Button for pending/invalid files */}
-                      {(fileState.status === 'pending' || fileState.status === 'invalid') && buttonDisplayMode === '0' && (
+                      {/* Cancel Button for uploading files */}
+                      {fileState.status === 'uploading' && buttonDisplayMode === '0' && (
+                        <Button
+                          appearance="subtle"
+                          size="small"
+                          icon={<DismissCircleRegular />}
+                          onClick={() => cancelUpload(fileState.file.name)}
+                          title={getLocalizedString('CancelUpload', 'Cancel upload')}
+                          style={{ marginLeft: '8px' }}
+                        >
+                          {getLocalizedString('Cancel', 'Cancel')}
+                        </Button>
+                      )}
+
+                      {/* Remove Button for pending/invalid/cancelled/queued/skipped files */}
+                      {(fileState.status === 'pending' || fileState.status === 'invalid' || fileState.status === 'cancelled' || fileState.status === 'queued' || fileState.status === 'skipped') && buttonDisplayMode === '0' && (
                         <Button
                           appearance="subtle"
                           size="small"
@@ -1733,6 +3954,301 @@ export const FilesImportControl: React.FC<IFilesImportControlProps> = ({
           </div>
         )}
 
+        {/* Conflict dialog, shown when ConflictBehavior is Prompt */}
+        <Dialog open={!!conflictPrompt} modalType="modal" onOpenChange={(event, data) => !data.open && closeConflictPrompt(null)}>
+          <DialogSurface>
+            <DialogBody>
+              <DialogTitle>{getLocalizedString('FileConflictTitle', 'Files already exist')}</DialogTitle>
+              <DialogContent>
+                <Body1>{getLocalizedString('FileConflictMessage', 'Choose what to do with each file that has the same name as an existing file.')}</Body1>
+                {conflictPrompt && Object.keys(conflictPrompt).map(fileName => (
+                  <div key={fileName} style={{ marginTop: '12px' }}>
+                    <Text weight="semibold">{fileName}</Text>
+                    <RadioGroup
+                      layout="horizontal"
+                      value={conflictPrompt[fileName]}
+                      onChange={(event, data) => setConflictPrompt(prev => prev && { ...prev, [fileName]: data.value as ConflictAction })}
+                    >
+                      <Radio value="Overwrite" label={getLocalizedString('ConflictOverwrite', 'Replace')} />
+                      <Radio value="AutoRename" label={getLocalizedString('ConflictAutoRename', 'Keep both')} />
+                      <Radio value="Skip" label={getLocalizedString('ConflictSkip', 'Skip')} />
+                    </RadioGroup>
+                  </div>
+                ))}
+              </DialogContent>
+              <DialogActions>
+                <Button appearance="secondary" onClick={() => closeConflictPrompt(null)}>
+                  {getLocalizedString('Cancel', 'Cancel')}
+                </Button>
+                <Button appearance="primary" onClick={() => closeConflictPrompt(conflictPrompt)}>
+                  {getLocalizedString('Upload', 'Upload')}
+                </Button>
+              </DialogActions>
+            </DialogBody>
+          </DialogSurface>
+        </Dialog>
+
+        {/* Folder picker of a move or copy */}
+        <Dialog open={!!transferDialog} modalType="modal" onOpenChange={(event, data) => !data.open && setTransferDialog(null)}>
+          <DialogSurface>
+            <DialogBody>
+              <DialogTitle>
+                {transferDialog?.operation === 'Copy' ? getLocalizedString('CopyFilesTo', 'Copy to folder') : getLocalizedString('MoveFilesTo', 'Move to folder')}
+              </DialogTitle>
+              {transferDialog && (
+                <DialogContent>
+                  <Caption1 style={{ display: 'block', color: '#605e5c', marginBottom: '8px' }}>
+                    {transferDialog.fileNames.join(', ')}
+                  </Caption1>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+                    <Text>{getLocalizedString('Record', 'Record')}</Text>
+                    <Input
+                      size="small"
+                      value={transferDialog.record}
+                      onChange={(event, data) => setTransferDialog(prev => prev && { ...prev, record: data.value, error: undefined })}
+                      onBlur={() => transferDialog.record.trim() !== transferDialog.loadedRecord && loadTransferTargetFolder(transferDialog.record.trim(), '')}
+                      onKeyDown={(event) => event.key === 'Enter' && loadTransferTargetFolder(transferDialog.record.trim(), '')}
+                      style={{ flex: 1 }}
+                    />
+                  </div>
+                  <Breadcrumb size="small">
+                    <BreadcrumbItem>
+                      <BreadcrumbButton
+                        icon={<FolderRegular />}
+                        current={!transferDialog.folder}
+                        onClick={() => loadTransferTargetFolder(transferDialog.record.trim(), '')}
+                      >
+                        {getRecordFolderPath(transferDialog.record.trim(), '') || getLocalizedString('Container', 'Container')}
+                      </BreadcrumbButton>
+                    </BreadcrumbItem>
+                    {transferDialog.folder && transferDialog.folder.split('/').map((folderName, index, folderNames) => (
+                      <React.Fragment key={`target-breadcrumb-${index}`}>
+                        <BreadcrumbDivider />
+                        <BreadcrumbItem>
+                          <BreadcrumbButton
+                            current={index === folderNames.length - 1}
+                            onClick={() => loadTransferTargetFolder(transferDialog.record.trim(), folderNames.slice(0, index + 1).join('/'))}
+                          >
+                            {folderName}
+                          </BreadcrumbButton>
+                        </BreadcrumbItem>
+                      </React.Fragment>
+                    ))}
+                  </Breadcrumb>
+                  <div style={{ minHeight: '120px', maxHeight: '240px', overflowY: 'auto', border: '1px solid #e1dfdd', borderRadius: '4px', marginTop: '8px' }}>
+                    {transferDialog.loading ? (
+                      <div style={{ padding: '16px' }}>
+                        <Spinner size="tiny" />
+                      </div>
+                    ) : transferDialog.folders.length === 0 ? (
+                      <Caption1 style={{ display: 'block', color: '#8a8886', padding: '16px' }}>
+                        {getLocalizedString('NoSubfolders', 'No subfolders')}
+                      </Caption1>
+                    ) : (
+                      transferDialog.folders.map(folderName => (
+                        <Button
+                          key={`target-folder-${folderName}`}
+                          appearance="subtle"
+                          icon={<FolderRegular />}
+                          onClick={() => loadTransferTargetFolder(transferDialog.record.trim(), [transferDialog.folder, folderName].filter(Boolean).join('/'))}
+                          style={{ display: 'flex', width: '100%', justifyContent: 'flex-start' }}
+                        >
+                          {folderName}
+                        </Button>
+                      ))
+                    )}
+                  </div>
+                  {!transferDialog.loading && transferDialog.fileNames.some(fileName => transferDialog.targetFileNames.includes(fileName)) && (
+                    <Caption1 style={{ display: 'block', color: '#8a6d00', marginTop: '8px' }}>
+                      {getLocalizedString('TransferReplacesFiles', 'Files with the same name in this folder will be replaced')}
+                    </Caption1>
+                  )}
+                  {transferDialog.error && (
+                    <Caption1 style={{ display: 'block', color: '#d13438', marginTop: '8px' }}>
+                      {transferDialog.error}
+                    </Caption1>
+                  )}
+                </DialogContent>
+              )}
+              <DialogActions>
+                <Button appearance="secondary" onClick={() => setTransferDialog(null)}>
+                  {getLocalizedString('Cancel', 'Cancel')}
+                </Button>
+                <Button appearance="primary" onClick={confirmTransferDialog} disabled={!transferDialog || transferDialog.loading}>
+                  {transferDialog?.operation === 'Copy' ? getLocalizedString('Copy', 'Copy') : getLocalizedString('Move', 'Move')}
+                </Button>
+              </DialogActions>
+            </DialogBody>
+          </DialogSurface>
+        </Dialog>
+
+        {/* Recently deleted files of the folder shown, restorable until their retention expires */}
+        <Dialog open={!!recycleBin} modalType="modal" onOpenChange={(event, data) => !data.open && setRecycleBin(null)}>
+          <DialogSurface>
+            <DialogBody>
+              <DialogTitle>{getLocalizedString('RecentlyDeleted', 'Recently deleted')}</DialogTitle>
+              {recycleBin && (
+                <DialogContent>
+                  <Caption1 style={{ display: 'block', color: '#605e5c', marginBottom: '8px' }}>
+                    {getCombinedFolderPath() || getLocalizedString('Container', 'Container')}
+                  </Caption1>
+                  <div style={{ minHeight: '120px', maxHeight: '320px', overflowY: 'auto', border: '1px solid #e1dfdd', borderRadius: '4px' }}>
+                    {recycleBin.loading ? (
+                      <div style={{ padding: '16px' }}>
+                        <Spinner size="tiny" />
+                      </div>
+                    ) : recycleBin.files.length === 0 && !recycleBin.error ? (
+                      <Caption1 style={{ display: 'block', color: '#8a8886', padding: '16px' }}>
+                        {getLocalizedString('NoDeletedFiles', 'No recently deleted files')}
+                      </Caption1>
+                    ) : (
+                      recycleBin.files.map(deletedFile => (
+                        <div key={deletedFile.deletedId} style={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: '8px',
+                          padding: '8px 12px',
+                          borderBottom: '1px solid #f3f2f1'
+                        }}>
+                          <div style={{ flex: 1, minWidth: 0 }}>
+                            <Text style={{ display: 'block', fontWeight: '600', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                              {deletedFile.name}
+                            </Text>
+                            <Caption1 style={{ display: 'block', color: recycleBin.errors[deletedFile.deletedId] ? '#d13438' : '#605e5c' }}>
+                              {recycleBin.errors[deletedFile.deletedId]
+                                || `${formatFileSize(deletedFile.size)} • ${getLocalizedString('DeletedOn', 'Deleted')} ${deletedFile.deletedOn.toLocaleString()}${deletedFile.expiresOn ? ` • ${getLocalizedString('ExpiresOn', 'Expires')} ${deletedFile.expiresOn.toLocaleDateString()}` : ''}`}
+                            </Caption1>
+                            {existingFiles.some(file => file.name === deletedFile.name) && (
+                              <Caption1 style={{ display: 'block', color: '#8a6d00' }}>
+                                {getLocalizedString('RestoreReplacesFile', 'Restoring replaces the current file of this name')}
+                              </Caption1>
+                            )}
+                          </div>
+                          <Button
+                            appearance="subtle"
+                            size="small"
+                            icon={recycleBin.restoring[deletedFile.deletedId] ? <Spinner size="tiny" /> : <ArrowUndoRegular />}
+                            onClick={() => handleRestoreFromRecycleBin(deletedFile)}
+                            disabled={recycleBin.restoring[deletedFile.deletedId]}
+                          >
+                            {getLocalizedString('Restore', 'Restore')}
+                          </Button>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                  {recycleBin.error && (
+                    <Caption1 style={{ display: 'block', color: '#d13438', marginTop: '8px' }}>
+                      {recycleBin.error}
+                    </Caption1>
+                  )}
+                </DialogContent>
+              )}
+              <DialogActions>
+                <Button appearance="secondary" onClick={() => setRecycleBin(null)}>
+                  {getLocalizedString('Close', 'Close')}
+                </Button>
+              </DialogActions>
+            </DialogBody>
+          </DialogSurface>
+        </Dialog>
+
+        {/* Preview of an existing file; the arrow keys move to the previous or next file */}
+        <Dialog open={!!preview} modalType="modal" onOpenChange={(event, data) => !data.open && closePreview()}>
+          <DialogSurface
+            style={{ width: '900px', maxWidth: '90vw' }}
+            onKeyDown={(event) => {
+              if (event.key === 'ArrowLeft' && previewIndex > 0) {
+                openPreview(visibleExistingFiles[previewIndex - 1].name);
+              } else if (event.key === 'ArrowRight' && previewIndex >= 0 && previewIndex < visibleExistingFiles.length - 1) {
+                openPreview(visibleExistingFiles[previewIndex + 1].name);
+              }
+            }}
+          >
+            <DialogBody>
+              <DialogTitle style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {preview?.fileName}
+              </DialogTitle>
+              {preview && (
+                <DialogContent>
+                  <div style={{ height: '60vh', display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: '#faf9f8', border: '1px solid #e1dfdd', borderRadius: '4px', overflow: 'auto' }}>
+                    {preview.loading ? (
+                      <Spinner label={getLocalizedString('LoadingPreview', 'Loading preview...')} />
+                    ) : preview.error ? (
+                      <Caption1 style={{ color: '#d13438', padding: '16px' }}>{preview.error}</Caption1>
+                    ) : !preview.kind ? (
+                      <Caption1 style={{ color: '#605e5c', padding: '16px' }}>
+                        {getLocalizedString('NoPreviewAvailable', 'No preview available for this file type')}
+                      </Caption1>
+                    ) : preview.kind === 'image' ? (
+                      <img src={preview.objectUrl} alt={preview.fileName} style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} />
+                    ) : preview.kind === 'pdf' ? (
+                      <iframe src={preview.objectUrl} title={preview.fileName} style={{ width: '100%', height: '100%', border: 'none' }} />
+                    ) : preview.kind === 'csv' ? (
+                      <div style={{ alignSelf: 'stretch', width: '100%', overflow: 'auto' }}>
+                        <table style={{ borderCollapse: 'collapse', fontSize: '12px', backgroundColor: '#ffffff' }}>
+                          <tbody>
+                            {(preview.rows || []).map((row, rowIndex) => (
+                              <tr key={`row-${rowIndex}`} style={rowIndex === 0 ? { fontWeight: 600, backgroundColor: '#f3f2f1' } : undefined}>
+                                {row.map((cell, cellIndex) => (
+                                  <td key={`cell-${cellIndex}`} style={{ border: '1px solid #e1dfdd', padding: '4px 8px', whiteSpace: 'nowrap' }}>{cell}</td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ) : (
+                      <pre style={{ alignSelf: 'stretch', width: '100%', margin: 0, padding: '12px', fontSize: '12px', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                        {preview.text}
+                      </pre>
+                    )}
+                  </div>
+                  {preview.truncated && (
+                    <Caption1 style={{ display: 'block', color: '#605e5c', marginTop: '8px' }}>
+                      {getLocalizedString('PreviewTruncated', 'Only the beginning of the file is shown; download it to see all of it')}
+                    </Caption1>
+                  )}
+                </DialogContent>
+              )}
+              <DialogActions fluid>
+                <Button
+                  appearance="subtle"
+                  icon={<ChevronLeftRegular />}
+                  onClick={() => openPreview(visibleExistingFiles[previewIndex - 1].name)}
+                  disabled={previewIndex <= 0}
+                  title={getLocalizedString('PreviousFile', 'Previous file')}
+                />
+                <Caption1 style={{ color: '#605e5c', alignSelf: 'center' }}>
+                  {previewIndex >= 0 ? `${previewIndex + 1} / ${visibleExistingFiles.length}` : ''}
+                </Caption1>
+                <Button
+                  appearance="subtle"
+                  icon={<ChevronRightRegular />}
+                  onClick={() => openPreview(visibleExistingFiles[previewIndex + 1].name)}
+                  disabled={previewIndex < 0 || previewIndex >= visibleExistingFiles.length - 1}
+                  title={getLocalizedString('NextFile', 'Next file')}
+                />
+                <div style={{ flex: 1 }} />
+                <Button
+                  appearance="secondary"
+                  icon={<ArrowDownloadRegular />}
+                  onClick={() => preview && (preview.result ? saveDownloadResult(preview.result, preview.fileName) : handleViewExistingFile(preview.fileName))}
+                  disabled={!preview || preview.loading}
+                >
+                  {getLocalizedString('View', 'Download')}
+                </Button>
+                <Button appearance="primary" onClick={closePreview}>
+                  {getLocalizedString('Close', 'Close')}
+                </Button>
+              </DialogActions>
+            </DialogBody>
+          </DialogSurface>
+        </Dialog>
+
+        {/* Undo toasts of soft deletes */}
+        <Toaster toasterId={toasterId} position="bottom-end" />
+
         {/* Hidden file input */}
         <input
           ref={importFileRef}
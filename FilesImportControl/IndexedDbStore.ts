@@ -0,0 +1,67 @@
+/**
+ * IndexedDbStore.ts
+ *
+ * Minimal promise wrappers around IndexedDB, used by the stores that keep
+ * files in the browser (simulation storage, offline upload queue).
+ */
+
+/**
+ * Turns an IndexedDB request into a promise
+ * @param request - IndexedDB request
+ * @returns Promise resolving to the request result
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Opens an IndexedDB database, creating a single object store on first use
+ * @param databaseName - Name of the database
+ * @param storeName - Name of the object store
+ * @param keyPath - Key path of the object store
+ * @param indexes - Optional index names, each indexing the property of the same name
+ * @returns Promise resolving to the open database
+ */
+export const openObjectStoreDatabase = (
+  databaseName: string,
+  storeName: string,
+  keyPath: string,
+  indexes: string[] = []
+): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  const request = indexedDB.open(databaseName, 1);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(storeName, { keyPath });
+    indexes.forEach(index => store.createIndex(index, index));
+  };
+  return requestToPromise(request);
+};
+
+/**
+ * Runs a single request against an object store and waits for its transaction
+ * @param database - Open database
+ * @param storeName - Name of the object store
+ * @param mode - Transaction mode
+ * @param operation - Creates the request from the object store
+ * @returns Promise resolving to the request result once the transaction completes
+ */
+export const runStoreRequest = <T>(
+  database: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
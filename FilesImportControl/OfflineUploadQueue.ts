@@ -0,0 +1,101 @@
+/**
+ * OfflineUploadQueue.ts
+ *
+ * Persists uploads that could not be sent because the browser was offline, so
+ * they survive a reload of the app and can be replayed once connectivity returns.
+ * Every entry remembers the storage and folder path it was meant for.
+ */
+
+import { openObjectStoreDatabase, runStoreRequest } from "./IndexedDbStore";
+
+/**
+ * Upload waiting in the offline queue
+ */
+export interface IQueuedUpload {
+  /** Key of the entry: storage, folder path and file identity */
+  id: string;
+  /** Name of the storage provider the upload targets */
+  storageName: string;
+  /** Folder path the upload targets, as returned by getCombinedFolderPath */
+  folderPath: string;
+  /** File to upload */
+  file: File;
+  /** Subfolder of the folder path the file is routed to, such as the subfolder of a scanned barcode */
+  targetFolder?: string;
+  /** Timestamp when the upload was queued */
+  queuedOn: number;
+}
+
+/** IndexedDB database and store holding the queued uploads */
+const OFFLINE_QUEUE_DATABASE_NAME = 'fileUploadControlOfflineQueue';
+const OFFLINE_QUEUE_STORE_NAME = 'uploads';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = openObjectStoreDatabase(OFFLINE_QUEUE_DATABASE_NAME, OFFLINE_QUEUE_STORE_NAME, 'id', ['folderPath']);
+    // A failed open, e.g. a blocked upgrade, is tried again on the next call
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+/**
+ * Builds the queue key of a file. Queuing the same file again replaces its entry.
+ * @param storageName - Name of the storage provider
+ * @param folderPath - Target folder path
+ * @param file - File to upload
+ * @returns Queue entry key
+ */
+export const getQueuedUploadId = (storageName: string, folderPath: string, file: File): string => {
+  return [storageName, folderPath, file.name, file.size, file.lastModified].join('|');
+};
+
+/**
+ * Adds a file to the offline queue
+ * @param storageName - Name of the storage provider
+ * @param folderPath - Target folder path
+ * @param file - File to upload
+ * @param targetFolder - Optional subfolder of the folder path the file is routed to
+ * @returns Promise resolving to the queued entry
+ */
+export const enqueueUpload = async (storageName: string, folderPath: string, file: File, targetFolder?: string): Promise<IQueuedUpload> => {
+  const entry: IQueuedUpload = {
+    id: getQueuedUploadId(storageName, folderPath, file),
+    storageName,
+    folderPath,
+    file,
+    targetFolder,
+    queuedOn: Date.now(),
+  };
+  await runStoreRequest(await getDatabase(), OFFLINE_QUEUE_STORE_NAME, 'readwrite', store => store.put(entry));
+  return entry;
+};
+
+/**
+ * Reads the queued uploads of a storage, whatever folder path they target, oldest first
+ * @param storageName - Name of the storage provider
+ * @returns Promise resolving to the queued entries
+ */
+export const getQueuedUploads = async (storageName: string): Promise<IQueuedUpload[]> => {
+  const entries = await runStoreRequest<IQueuedUpload[]>(
+    await getDatabase(),
+    OFFLINE_QUEUE_STORE_NAME,
+    'readonly',
+    store => store.getAll()
+  );
+  return entries
+    .filter(entry => entry.storageName === storageName)
+    .sort((a, b) => a.queuedOn - b.queuedOn);
+};
+
+/**
+ * Removes an entry from the offline queue
+ * @param id - Queue entry key
+ */
+export const removeQueuedUpload = async (id: string): Promise<void> => {
+  await runStoreRequest(await getDatabase(), OFFLINE_QUEUE_STORE_NAME, 'readwrite', store => store.delete(id));
+};
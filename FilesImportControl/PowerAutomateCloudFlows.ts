@@ -1,123 +1,228 @@
 /**
  * PowerAutomateCloudFlows.ts
  * 
- * A standalone class for file operations using Power Automate Cloud Flows
- * instead of direct Azure SDK integration. This class provides upload, list,
- * and delete operations through Cloud Flow invocations.
- */
-
-/**
- * Configuration interface for Power Automate Cloud Flows
- */
-export interface ICloudFlowConfig {
-  /** Base URL for the Power Automate environment */
-  environmentUrl: string;
-  /** Authentication token (Bearer token or connection string) */
-  authToken: string;
-  /** Flow ID for file upload operations */
-  uploadFlowId: string;
-  /** Flow ID for listing files operations */
-  listFilesFlowId: string;
-  /** Flow ID for file deletion operations */
-  deleteFlowId: string;
-  /** Flow ID for generating SAS URLs to view files */
-  generateViewUrlFlowId: string;
-  /** Container/folder path for file operations */
-  containerPath: string;
-  /** Optional timeout for flow execution (in milliseconds) */
+ * Storage provider for file operations using Power Automate Cloud Flows
+ * instead of direct Azure SDK integration. Every operation is an HTTP trigger
+ * URL: upload (single request or chunked), list, delete and download, plus the
+ * optional folder creation, rename, move, copy and version history operations
+ * (list versions, restore version).
+ */
+
+import {
+  IStorageProvider,
+  TransferProgressEvent,
+  IUploadResult,
+  IExistingFile,
+  IListFilesPage,
+  IGenerateViewUrlResult,
+  IDeleteResult,
+  IDownloadResult,
+  IUploadOptions,
+  IFileVersion,
+  IRestoreVersionResult,
+  IDeletedFile,
+  IRestoreDeletedFileResult,
+  IRenameResult,
+  ICreateFolderResult,
+  ConflictAction,
+  fileToBase64,
+  createTransferProgressEvent,
+  createBlockId,
+} from "./StorageProvider";
+
+/**
+ * Retry policy for transient flow failures (429, 5xx, timeouts and network errors)
+ */
+export interface IRetryPolicy {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts: number;
+  /** Backoff before the first retry (in milliseconds), doubled for every further retry */
+  baseDelayMs: number;
+  /** Upper bound of the backoff (in milliseconds) */
+  maxDelayMs: number;
+}
+
+/**
+ * Options applied to every call of a flow trigger URL
+ */
+export interface IFlowTriggerOptions {
+  /** Optional authentication token sent as Bearer token */
+  authToken?: string;
+  /** Optional timeout for each flow call (in milliseconds) */
   timeout?: number;
+  /** Optional retry policy; without it every call is attempted once */
+  retryPolicy?: IRetryPolicy;
+  /** Optional callback invoked before every retry */
+  onRetry?: (attempt: number, error: Error, delayMs: number) => void;
+  /** Optional signal that aborts the request in flight and any pending retry */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error raised when a flow call fails at the HTTP level, carrying what the retry
+ * policy needs to decide whether and when to try again
+ */
+export class FlowRequestError extends Error {
+  /** HTTP status code, undefined for timeouts and network errors */
+  public readonly status?: number;
+  /** Delay requested by the Retry-After response header (in milliseconds) */
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'FlowRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
 }
 
 /**
- * Event object containing transfer progress information
+ * Error raised when a flow call is aborted through its AbortSignal. It is never retried.
  */
-export interface TransferProgressEvent {
-  /** Number of bytes loaded/transferred so far */
-  loadedBytes: number;
-  /** Total file size in bytes */
-  totalBytes?: number;
-  /** Progress percentage (0-100) */
-  percentage?: number;
+export class FlowCancelledError extends Error {
+  constructor(message = 'Upload cancelled') {
+    super(message);
+    this.name = 'FlowCancelledError';
+  }
 }
 
 /**
- * Result object returned after file upload operation
+ * Configuration for chunked uploads through flow trigger URLs
  */
-export interface IUploadResult {
-  /** Name of the uploaded file */
-  fileName: string;
-  /** Full URL where the file can be accessed */
-  url: string;
-  /** Whether the upload was successful */
-  success: boolean;
-  /** Error message if upload failed */
-  error?: string;
-  /** Flow execution ID for tracking */
-  flowRunId?: string;
+export interface IBlockUploadConfig extends IFlowTriggerOptions {
+  /** Complete trigger URL for the flow that stages a single block */
+  uploadBlockUrl: string;
+  /** Complete trigger URL for the flow that commits the staged block list */
+  commitBlocksUrl: string;
+  /** Container/folder path for file operations */
+  containerPath: string;
+  /** Size of each block in bytes */
+  blockSize: number;
+  /** Optional action chosen for a file whose name already exists, sent with the commit */
+  conflictAction?: ConflictAction;
+  /** Whether the commit keeps the replaced file as a prior version */
+  keepPreviousVersion?: boolean;
+  /** Optional metadata stored with the file, sent with the commit */
+  metadata?: Record<string, string>;
 }
 
 /**
- * Information about an existing file in storage
+ * Configuration of the Power Automate Cloud Flow storage provider
  */
-export interface IExistingFile {
-  /** File name */
-  name: string;
-  /** File size in bytes */
-  size: number;
-  /** Full URL where the file can be accessed */
-  url: string;
-  /** Date when the file was last modified */
-  lastModified: Date;
-  /** Additional metadata returned by the flow */
-  metadata?: Record<string, any>;
+export interface ICloudFlowStorageConfig extends IFlowTriggerOptions {
+  /** Complete trigger URL for the file upload flow */
+  uploadUrl: string;
+  /** Complete trigger URL for the list files flow */
+  listFilesUrl: string;
+  /** Complete trigger URL for the file deletion flow */
+  deleteUrl: string;
+  /** Complete trigger URL for the file download flow */
+  downloadUrl: string;
+  /** Optional trigger URL for staging a single block of a chunked upload */
+  uploadBlockUrl?: string;
+  /** Optional trigger URL for committing the staged blocks of a chunked upload */
+  commitBlocksUrl?: string;
+  /** Optional trigger URL for generating SAS URLs to view files */
+  generateViewUrlUrl?: string;
+  /** Optional trigger URL for creating a subfolder */
+  createFolderUrl?: string;
+  /** Optional trigger URL for renaming a file within its folder */
+  renameUrl?: string;
+  /** Optional trigger URL for moving a file to another folder */
+  moveUrl?: string;
+  /** Optional trigger URL for copying a file to another folder */
+  copyUrl?: string;
+  /** Whether overwritten files are kept as prior versions (blob snapshots or versioned paths) */
+  versioning?: boolean;
+  /** Optional trigger URL for listing the prior versions of a file */
+  listVersionsUrl?: string;
+  /** Optional trigger URL for restoring a prior version of a file */
+  restoreVersionUrl?: string;
+  /** Whether deleted files are moved to a retention area instead of being removed */
+  softDelete?: boolean;
+  /** Days a soft deleted file is kept before it is removed for good */
+  retentionDays?: number;
+  /** Optional trigger URL for listing the soft deleted files of a folder */
+  listDeletedUrl?: string;
+  /** Optional trigger URL for restoring a soft deleted file */
+  restoreDeletedUrl?: string;
+  /** Container/folder path for file operations */
+  containerPath: string;
+  /** Block size for chunked uploads (in bytes); smaller files are sent in one request */
+  blockSize: number;
 }
 
 /**
- * Result object returned after generating view URL operation
+ * Request payload for upload flow
  */
-export interface IGenerateViewUrlResult {
-  /** Name of the file for which the view URL was generated */
+interface IUploadFlowRequest {
   fileName: string;
-  /** SAS URL for viewing the file */
-  viewUrl: string;
-  /** Whether the operation was successful */
+  fileContent: string; // Base64 encoded
+  containerPath: string;
+  folderName?: string;
+  fileSize: number;
+  contentType: string;
+  conflictAction?: ConflictAction;
+  keepPreviousVersion?: boolean;
+  metadata?: Record<string, string>; // Stored as metadata of the blob
+}
+
+/**
+ * Response from upload flow
+ */
+interface IUploadFlowResponse {
   success: boolean;
-  /** Error message if operation failed */
+  fileName: string;
+  url: string;
   error?: string;
-  /** Flow execution ID for tracking */
-  flowRunId?: string;
+  flowRunId: string;
 }
 
 /**
- * Result object returned after file deletion operation
+ * Request payload for upload block flow
  */
-export interface IDeleteResult {
-  /** Name of the file that was deleted */
+interface IUploadBlockFlowRequest {
   fileName: string;
-  /** Whether the deletion was successful */
+  containerPath: string;
+  folderName?: string;
+  blockId: string; // Base64 encoded, same length for every block of the file
+  blockIndex: number;
+  blockCount: number;
+  blockContent: string; // Base64 encoded
+  blockSize: number;
+  fileSize: number;
+  contentType: string;
+}
+
+/**
+ * Response from upload block flow
+ */
+interface IUploadBlockFlowResponse {
   success: boolean;
-  /** Error message if deletion failed */
+  blockId: string;
   error?: string;
-  /** Flow execution ID for tracking */
-  flowRunId?: string;
+  flowRunId: string;
 }
 
 /**
- * Request payload for upload flow
+ * Request payload for commit blocks flow
  */
-interface IUploadFlowRequest {
+interface ICommitBlocksFlowRequest {
   fileName: string;
-  fileContent: string; // Base64 encoded
   containerPath: string;
   folderName?: string;
+  blockIds: string[];
   fileSize: number;
   contentType: string;
+  conflictAction?: ConflictAction;
+  keepPreviousVersion?: boolean;
+  metadata?: Record<string, string>; // Stored as metadata of the blob
 }
 
 /**
- * Response from upload flow
+ * Response from commit blocks flow
  */
-interface IUploadFlowResponse {
+interface ICommitBlocksFlowResponse {
   success: boolean;
   fileName: string;
   url: string;
@@ -125,12 +230,26 @@ interface IUploadFlowResponse {
   flowRunId: string;
 }
 
+/**
+ * Acknowledged progress of an unfinished chunked upload
+ */
+interface IBlockUploadSession {
+  /** Block size the session was started with */
+  blockSize: number;
+  /** Number of leading blocks acknowledged by the upload block flow */
+  acknowledgedBlocks: number;
+  /** Timestamp of the last acknowledged block */
+  updatedOn: number;
+}
+
 /**
  * Request payload for list files flow
  */
 interface IListFilesFlowRequest {
   containerPath: string;
   folderName?: string;
+  pageSize?: number; // Maximum number of files of a page; the whole folder when absent
+  continuationToken?: string; // Token of the page to continue from, as returned by the previous page
 }
 
 /**
@@ -145,6 +264,8 @@ interface IListFilesFlowResponse {
     lastModified: string;
     metadata?: Record<string, any>;
   }>;
+  folders?: string[]; // Names of the subfolders of the listed folder
+  continuationToken?: string; // Token of the next page; absent on the last page
   error?: string;
   flowRunId: string;
 }
@@ -175,6 +296,8 @@ interface IDeleteFlowRequest {
   fileName: string;
   containerPath: string;
   folderName?: string;
+  softDelete?: boolean; // Move the file to the retention area instead of removing it
+  retentionDays?: number; // Days the soft deleted file is kept
 }
 
 /**
@@ -183,32 +306,320 @@ interface IDeleteFlowRequest {
 interface IDeleteFlowResponse {
   success: boolean;
   fileName: string;
+  deletedId?: string; // Identifier of the soft deleted file in the retention area
   error?: string;
   flowRunId: string;
 }
 
 /**
- * Utility function to convert File to Base64
- * @param file - File object to convert
- * @returns Promise resolving to Base64 string
+ * Request payload for download flow
  */
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      if (reader.result) {
-        // Remove the data URL prefix (e.g., "data:image/png;base64,")
-        const base64 = (reader.result as string).split(',')[1];
-        resolve(base64);
-      } else {
-        reject(new Error('Failed to read file'));
-      }
+interface IDownloadFlowRequest {
+  storageAccountName: string; // Container path
+  filePath: string;
+  fileName: string;
+  versionId?: string; // Prior version to download instead of the current file
+}
+
+/**
+ * Response from download flow. Power Automate may wrap it in a body property.
+ */
+interface IDownloadFlowResponse {
+  fileName?: string;
+  fileContent?: string; // Base64 encoded
+  contentType?: string;
+  fileSize?: number;
+  error?: string;
+  body?: IDownloadFlowResponse;
+}
+
+/**
+ * Request payload for create folder flow
+ */
+interface ICreateFolderFlowRequest {
+  containerPath: string;
+  folderName?: string; // Parent folder
+  newFolderName: string;
+}
+
+/**
+ * Response from create folder flow
+ */
+interface ICreateFolderFlowResponse {
+  success: boolean;
+  folderName: string;
+  error?: string;
+  flowRunId: string;
+}
+
+/**
+ * Request payload for rename flow
+ */
+interface IRenameFlowRequest {
+  containerPath: string;
+  folderName?: string;
+  fileName: string;
+  newFileName: string;
+}
+
+/**
+ * Response from rename flow
+ */
+interface IRenameFlowResponse {
+  success: boolean;
+  fileName: string;
+  newFileName?: string;
+  error?: string;
+  flowRunId: string;
+}
+
+/**
+ * Request payload for move and copy flows
+ */
+interface ITransferFlowRequest {
+  containerPath: string;
+  folderName?: string;
+  fileName: string;
+  targetFolderName: string;
+}
+
+/**
+ * Response from move and copy flows
+ */
+interface ITransferFlowResponse {
+  success: boolean;
+  fileName: string;
+  error?: string;
+  flowRunId: string;
+}
+
+/**
+ * Request payload for list versions flow
+ */
+interface IListVersionsFlowRequest {
+  containerPath: string;
+  folderName?: string;
+  fileName: string;
+}
+
+/**
+ * Response from list versions flow
+ */
+interface IListVersionsFlowResponse {
+  success: boolean;
+  versions: Array<{
+    versionId: string;
+    size: number;
+    lastModified: string;
+    metadata?: Record<string, any>;
+  }>;
+  error?: string;
+  flowRunId: string;
+}
+
+/**
+ * Request payload for restore version flow
+ */
+interface IRestoreVersionFlowRequest {
+  containerPath: string;
+  folderName?: string;
+  fileName: string;
+  versionId: string;
+}
+
+/**
+ * Response from restore version flow
+ */
+interface IRestoreVersionFlowResponse {
+  success: boolean;
+  fileName: string;
+  error?: string;
+  flowRunId: string;
+}
+
+/**
+ * Request payload for list deleted files flow
+ */
+interface IListDeletedFlowRequest {
+  containerPath: string;
+  folderName?: string;
+}
+
+/**
+ * Response from list deleted files flow
+ */
+interface IListDeletedFlowResponse {
+  success: boolean;
+  files: Array<{
+    name: string;
+    size: number;
+    deletedId: string;
+    deletedOn: string;
+    expiresOn?: string;
+    metadata?: Record<string, any>;
+  }>;
+  error?: string;
+  flowRunId: string;
+}
+
+/**
+ * Request payload for restore deleted file flow
+ */
+interface IRestoreDeletedFlowRequest {
+  containerPath: string;
+  folderName?: string;
+  fileName: string;
+  deletedId: string;
+}
+
+/**
+ * Response from restore deleted file flow
+ */
+interface IRestoreDeletedFlowResponse {
+  success: boolean;
+  fileName: string;
+  error?: string;
+  flowRunId: string;
+}
+
+/** localStorage key holding the acknowledged blocks of unfinished chunked uploads */
+const BLOCK_UPLOAD_SESSIONS_KEY = 'fileUploadControlBlockUploads';
+
+/** Azure Storage discards uncommitted blocks after 7 days */
+const BLOCK_UPLOAD_SESSION_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Status codes worth retrying: request timeout, throttling and server errors */
+const isTransientStatus = (status: number): boolean => {
+  return status === 408 || status === 429 || status >= 500;
+};
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date
+ * @param header - Retry-After header value
+ * @returns Requested delay in milliseconds, or undefined when absent or invalid
+ */
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Checks whether a failed flow call may succeed when attempted again
+ * @param error - Error thrown by the flow call
+ * @returns True for throttling, server errors, timeouts and network errors
+ */
+const isTransientFlowError = (error: unknown): boolean => {
+  if (error instanceof FlowRequestError) {
+    return error.status === undefined || isTransientStatus(error.status);
+  }
+  // fetch rejects with a TypeError when the network request itself fails
+  return error instanceof TypeError;
+};
+
+/**
+ * Waits before the next attempt, resolving early when the signal aborts
+ * @param delayMs - Delay in milliseconds
+ * @param signal - Optional signal ending the wait
+ * @returns Promise resolving after the delay or the abort
+ */
+const waitForRetry = (delayMs: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise(resolve => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
     };
-    reader.onerror = () => reject(reader.error);
-    reader.readAsDataURL(file);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
   });
 };
 
+/**
+ * Runs an operation, retrying transient failures with exponential backoff and full
+ * jitter. A Retry-After delay sent by the server takes precedence over the backoff.
+ * @param operation - Operation to run, receiving the 1-based attempt number
+ * @param policy - Retry policy; without it the operation is attempted once
+ * @param onRetry - Optional callback invoked before every retry
+ * @param signal - Optional signal that cancels the backoff and any further attempt
+ * @returns Promise resolving to the operation result
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  policy?: IRetryPolicy,
+  onRetry?: (attempt: number, error: Error, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> => {
+  const maxAttempts = Math.max(1, policy?.maxAttempts || 1);
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      throw new FlowCancelledError();
+    }
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new FlowCancelledError();
+      }
+      if (!policy || attempt >= maxAttempts || !isTransientFlowError(error)) {
+        throw error;
+      }
+
+      const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+      const delayMs =
+        error instanceof FlowRequestError && error.retryAfterMs !== undefined
+          ? error.retryAfterMs
+          : Math.floor(Math.random() * backoff);
+
+      if (onRetry) {
+        onRetry(attempt + 1, error as Error, delayMs);
+      }
+      await waitForRetry(delayMs, signal);
+    }
+  }
+};
+
+/**
+ * Calls fetch, retrying throttled (429) and server error (5xx) responses as well as
+ * network errors. The response of the last attempt is returned as is, so callers
+ * keep handling unsuccessful responses themselves.
+ * @param url - Request URL
+ * @param init - Request options
+ * @param policy - Retry policy; without it the request is sent once
+ * @param onRetry - Optional callback invoked before every retry
+ * @returns Promise resolving to the response of the last attempt
+ */
+export const fetchWithRetry = (
+  url: string,
+  init: RequestInit,
+  policy?: IRetryPolicy,
+  onRetry?: (attempt: number, error: Error, delayMs: number) => void
+): Promise<Response> => {
+  const maxAttempts = Math.max(1, policy?.maxAttempts || 1);
+
+  return withRetry(async (attempt) => {
+    const response = await fetch(url, init);
+    if (attempt < maxAttempts && isTransientStatus(response.status)) {
+      throw new FlowRequestError(
+        `Flow execution failed: ${response.status} ${response.statusText}`,
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+    return response;
+  }, policy, onRetry, init.signal ?? undefined);
+};
+
 /**
  * Utility function to invoke a Power Automate Cloud Flow
  * @param flowUrl - Complete URL to the flow trigger endpoint
@@ -216,337 +627,881 @@ const fileToBase64 = (file: File): Promise<string> => {
  * @param config - Flow configuration containing auth details
  * @returns Promise resolving to flow response
  */
-const invokeCloudFlow = async <TRequest, TResponse>(
+const invokeCloudFlow = <TRequest, TResponse>(
   flowUrl: string,
   payload: TRequest,
-  config: ICloudFlowConfig
+  config: IFlowTriggerOptions
 ): Promise<TResponse> => {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => {
-    controller.abort();
-  }, config.timeout || 100000); // Default 100 seconds (Power Automate timeout limit)
+  return withRetry(async () => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort();
+    }, config.timeout || 100000); // Default 100 seconds (Power Automate timeout limit)
+    const onCancel = () => controller.abort();
+    config.signal?.addEventListener('abort', onCancel, { once: true });
 
-  try {
-    const response = await fetch(flowUrl, {
-      method: 'POST',
-      headers: {
+    try {
+      const headers: Record<string, string> = {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${config.authToken}`,
-      },
-      body: JSON.stringify(payload),
-      signal: controller.signal,
-    });
+      };
+      // Trigger URLs carry their own SAS signature, so the token is optional
+      if (config.authToken) {
+        headers['Authorization'] = `Bearer ${config.authToken}`;
+      }
+
+      const response = await fetch(flowUrl, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
 
-    clearTimeout(timeoutId);
+      clearTimeout(timeoutId);
 
-    if (!response.ok) {
-      throw new Error(`Flow execution failed: ${response.status} ${response.statusText}`);
+      if (!response.ok) {
+        throw new FlowRequestError(
+          `Flow execution failed: ${response.status} ${response.statusText}`,
+          response.status,
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      }
+
+      const result = await response.json();
+      return result as TResponse;
+    } catch (error) {
+      clearTimeout(timeoutId);
+      if (error instanceof Error) {
+        if (error.name === 'AbortError') {
+          throw config.signal?.aborted
+            ? new FlowCancelledError()
+            : new FlowRequestError('Flow execution timed out');
+        }
+        throw error;
+      }
+      throw new Error('Unknown error occurred during flow execution');
+    } finally {
+      config.signal?.removeEventListener('abort', onCancel);
     }
+  }, config.retryPolicy, config.onRetry, config.signal);
+};
 
-    const result = await response.json();
-    return result as TResponse;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        throw new Error('Flow execution timed out');
+/**
+ * Utility function to invoke a Power Automate Cloud Flow while reporting how much of
+ * the request body has been sent. fetch cannot observe upload progress, so this uses
+ * XMLHttpRequest and its upload progress events.
+ * @param flowUrl - Complete URL to the flow trigger endpoint
+ * @param payload - Request payload to send to the flow
+ * @param config - Flow trigger options
+ * @param onUploadProgress - Optional callback receiving sent and total request bytes
+ * @returns Promise resolving to flow response
+ */
+const invokeCloudFlowWithProgress = <TRequest, TResponse>(
+  flowUrl: string,
+  payload: TRequest,
+  config: IFlowTriggerOptions,
+  onUploadProgress?: (sentBytes: number, totalBytes: number) => void
+): Promise<TResponse> => {
+  const body = JSON.stringify(payload);
+
+  return withRetry(() => new Promise<TResponse>((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('POST', flowUrl);
+    request.setRequestHeader('Content-Type', 'application/json');
+    if (config.authToken) {
+      request.setRequestHeader('Authorization', `Bearer ${config.authToken}`);
+    }
+    request.timeout = config.timeout || 100000; // Default 100 seconds (Power Automate timeout limit)
+
+    if (onUploadProgress) {
+      request.upload.onprogress = (event: ProgressEvent) => {
+        if (event.lengthComputable) {
+          onUploadProgress(event.loaded, event.total);
+        }
+      };
+    }
+
+    request.onload = () => {
+      if (request.status < 200 || request.status >= 300) {
+        reject(new FlowRequestError(
+          `Flow execution failed: ${request.status} ${request.statusText}`,
+          request.status,
+          parseRetryAfter(request.getResponseHeader('Retry-After'))
+        ));
+        return;
+      }
+      try {
+        resolve(JSON.parse(request.responseText) as TResponse);
+      } catch (error) {
+        reject(new Error('Failed to parse response'));
       }
-      throw error;
+    };
+    request.ontimeout = () => reject(new FlowRequestError('Flow execution timed out'));
+    request.onerror = () => reject(new FlowRequestError('Network error during flow execution'));
+
+    // Abort the request in flight when the caller cancels
+    const onCancel = () => request.abort();
+    request.onabort = () => reject(new FlowCancelledError());
+    request.onloadend = () => config.signal?.removeEventListener('abort', onCancel);
+    config.signal?.addEventListener('abort', onCancel, { once: true });
+
+    request.send(body);
+  }), config.retryPolicy, config.onRetry, config.signal);
+};
+
+/**
+ * Builds the key that identifies a chunked upload across retries and page reloads
+ * @param file - File being uploaded
+ * @param containerPath - Container/folder path of the upload
+ * @param folderName - Optional folder name of the upload
+ * @returns Key used in the block upload session store
+ */
+const getBlockUploadSessionKey = (
+  file: File,
+  containerPath: string,
+  folderName?: string
+): string => {
+  return [containerPath, folderName || '', file.name, file.size, file.lastModified].join('|');
+};
+
+/**
+ * Reads all unfinished chunked upload sessions, dropping the expired ones
+ * @returns Sessions keyed by getBlockUploadSessionKey
+ */
+const readBlockUploadSessions = (): Record<string, IBlockUploadSession> => {
+  try {
+    const saved = localStorage.getItem(BLOCK_UPLOAD_SESSIONS_KEY);
+    if (!saved) {
+      return {};
     }
-    throw new Error('Unknown error occurred during flow execution');
+    const sessions: Record<string, IBlockUploadSession> = JSON.parse(saved);
+    const now = Date.now();
+    Object.keys(sessions).forEach(key => {
+      if (now - sessions[key].updatedOn > BLOCK_UPLOAD_SESSION_EXPIRY_MS) {
+        delete sessions[key];
+      }
+    });
+    return sessions;
+  } catch (error) {
+    console.warn('Failed to load block upload sessions from localStorage:', error);
+    return {};
   }
 };
 
 /**
- * Constructs the complete flow trigger URL
- * @param config - Flow configuration
- * @param flowId - ID of the specific flow to invoke
- * @returns Complete flow trigger URL
+ * Stores or clears a single chunked upload session
+ * @param key - Session key
+ * @param session - Session to store, or null to clear it
  */
-const buildFlowUrl = (config: ICloudFlowConfig, flowId: string): string => {
-  const baseUrl = config.environmentUrl.endsWith('/')
-    ? config.environmentUrl.slice(0, -1)
-    : config.environmentUrl;
-  return `${baseUrl}/_api/cloudflow/v1.0/trigger/${flowId}`;
+const writeBlockUploadSession = (key: string, session: IBlockUploadSession | null): void => {
+  try {
+    const sessions = readBlockUploadSessions();
+    if (session) {
+      sessions[key] = session;
+    } else {
+      delete sessions[key];
+    }
+    localStorage.setItem(BLOCK_UPLOAD_SESSIONS_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    console.warn('Failed to save block upload session to localStorage:', error);
+  }
 };
 
 /**
- * Uploads a single file using Power Automate Cloud Flow
- * @param file - File to upload (null if no file selected)
- * @param config - Cloud Flow configuration
+ * Uploads a file in blocks: each block is staged through the upload block flow and
+ * the block list is committed through the commit blocks flow once all blocks are
+ * acknowledged. Acknowledged blocks are remembered in localStorage, so a failed or
+ * interrupted upload of the same file resumes after the last acknowledged block.
+ * @param file - File to upload
+ * @param config - Block upload configuration
  * @param folderName - Optional folder name where the file should be uploaded
- * @param onProgress - Optional callback function to track upload progress
- * @returns Promise resolving to upload result or null if no file provided
+ * @param onProgress - Optional callback receiving the file bytes sent so far
+ * @returns Promise resolving to upload result
  */
-export const uploadFileToCloudFlow = async (
-  file: File | null,
-  config: ICloudFlowConfig,
+export const uploadFileInBlocksToCloudFlow = async (
+  file: File,
+  config: IBlockUploadConfig,
   folderName?: string,
   onProgress?: (progress: TransferProgressEvent) => void
-): Promise<IUploadResult | null> => {
-  if (!file) return null;
+): Promise<IUploadResult> => {
+  const blockSize = Math.max(1, config.blockSize);
+  const blockCount = Math.max(1, Math.ceil(file.size / blockSize));
+  const contentType = file.type || 'application/octet-stream';
+  const sessionKey = getBlockUploadSessionKey(file, config.containerPath, folderName);
+
+  // Count retries of every block and of the commit as attempts of the file
+  let attempts = 1;
+  const trackedConfig: IBlockUploadConfig = {
+    ...config,
+    onRetry: (attempt, error, delayMs) => {
+      attempts++;
+      if (config.onRetry) {
+        config.onRetry(attempts, error, delayMs);
+      }
+    },
+  };
 
   try {
-    // Simulate progress during file encoding
-    if (onProgress) {
-      onProgress({
-        loadedBytes: 0,
-        totalBytes: file.size,
-        percentage: 0,
-      });
+    // Resume after the last acknowledged block when the previous attempt used the same block size
+    const session = readBlockUploadSessions()[sessionKey];
+    let acknowledgedBlocks =
+      session && session.blockSize === blockSize ? Math.min(session.acknowledgedBlocks, blockCount) : 0;
+
+    // Bytes of acknowledged blocks plus the sent share of the block in flight
+    const reportProgress = (inFlightBytes = 0) => {
+      if (onProgress) {
+        onProgress(createTransferProgressEvent(acknowledgedBlocks * blockSize + inFlightBytes, file.size));
+      }
+    };
+    reportProgress();
+
+    for (let blockIndex = acknowledgedBlocks; blockIndex < blockCount; blockIndex++) {
+      const start = blockIndex * blockSize;
+      const block = file.slice(start, Math.min(start + blockSize, file.size));
+      const blockId = createBlockId(blockIndex);
+
+      const response = await invokeCloudFlowWithProgress<IUploadBlockFlowRequest, IUploadBlockFlowResponse>(
+        config.uploadBlockUrl,
+        {
+          fileName: file.name,
+          containerPath: config.containerPath,
+          folderName: folderName,
+          blockId: blockId,
+          blockIndex: blockIndex,
+          blockCount: blockCount,
+          blockContent: await fileToBase64(block),
+          blockSize: block.size,
+          fileSize: file.size,
+          contentType: contentType,
+        },
+        trackedConfig,
+        // The request body is Base64 JSON, so scale its progress to the block's bytes
+        (sentBytes, totalBytes) => reportProgress((sentBytes / totalBytes) * block.size)
+      );
+
+      if (!response.success) {
+        throw new Error(response.error || `Failed to upload block ${blockIndex + 1} of ${blockCount}`);
+      }
+
+      acknowledgedBlocks = blockIndex + 1;
+      writeBlockUploadSession(sessionKey, { blockSize, acknowledgedBlocks, updatedOn: Date.now() });
+      reportProgress();
     }
 
-    // Convert file to Base64
-    const base64Content = await fileToBase64(file);
+    const blockIds = Array.from({ length: blockCount }, (_, blockIndex) => createBlockId(blockIndex));
+    const response = await invokeCloudFlow<ICommitBlocksFlowRequest, ICommitBlocksFlowResponse>(
+      config.commitBlocksUrl,
+      {
+        fileName: file.name,
+        containerPath: config.containerPath,
+        folderName: folderName,
+        blockIds: blockIds,
+        fileSize: file.size,
+        contentType: contentType,
+        conflictAction: config.conflictAction,
+        keepPreviousVersion: config.keepPreviousVersion,
+        metadata: config.metadata,
+      },
+      trackedConfig
+    );
+
+    // A failed commit may have discarded the staged blocks, so a retry sends every block again
+    writeBlockUploadSession(sessionKey, null);
 
-    // Simulate progress after encoding
+    return {
+      fileName: response.fileName || file.name,
+      url: response.url || '',
+      success: response.success,
+      error: response.success ? response.error : response.error || 'The uploaded blocks could not be committed',
+      flowRunId: response.flowRunId,
+      attempts: attempts,
+      conflictAction: config.conflictAction,
+    };
+  } catch (error) {
+    if (!(error instanceof FlowCancelledError)) {
+      console.error('Cloud Flow block upload error:', error);
+    }
+    // Acknowledged blocks stay in the session store, so a cancelled upload resumes as well
+    return {
+      fileName: file.name,
+      url: "",
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      attempts: attempts,
+      cancelled: error instanceof FlowCancelledError,
+    };
+  }
+};
+
+/**
+ * Uploads a single file in one request to a flow trigger URL, reporting the file
+ * bytes sent as the request body goes out
+ * @param file - File to upload
+ * @param uploadUrl - Complete trigger URL for the file upload flow
+ * @param containerPath - Container/folder path for file operations
+ * @param folderName - Optional folder name where the file should be uploaded
+ * @param onProgress - Optional callback receiving the file bytes sent so far
+ * @param options - Optional flow trigger options
+ * @param conflictAction - Optional action chosen for a file whose name already exists
+ * @param keepPreviousVersion - Whether the flow keeps the replaced file as a prior version
+ * @param metadata - Optional metadata stored with the file
+ * @returns Promise resolving to upload result
+ */
+export const uploadFileToFlowUrl = async (
+  file: File,
+  uploadUrl: string,
+  containerPath: string,
+  folderName?: string,
+  onProgress?: (progress: TransferProgressEvent) => void,
+  options: IFlowTriggerOptions = {},
+  conflictAction?: ConflictAction,
+  keepPreviousVersion?: boolean,
+  metadata?: Record<string, string>
+): Promise<IUploadResult> => {
+  let attempts = 1;
+  const trackedOptions: IFlowTriggerOptions = {
+    ...options,
+    onRetry: (attempt, error, delayMs) => {
+      attempts = attempt;
+      if (options.onRetry) {
+        options.onRetry(attempt, error, delayMs);
+      }
+    },
+  };
+
+  try {
     if (onProgress) {
-      onProgress({
-        loadedBytes: file.size * 0.5,
-        totalBytes: file.size,
-        percentage: 50,
-      });
+      onProgress(createTransferProgressEvent(0, file.size));
     }
 
     // Prepare request payload
     const uploadRequest: IUploadFlowRequest = {
       fileName: file.name,
-      fileContent: base64Content,
-      containerPath: config.containerPath,
+      fileContent: await fileToBase64(file),
+      containerPath: containerPath,
       folderName: folderName,
       fileSize: file.size,
       contentType: file.type || 'application/octet-stream',
+      conflictAction: conflictAction,
+      keepPreviousVersion: keepPreviousVersion,
+      metadata: metadata,
     };
 
-    // Build flow URL
-    const flowUrl = buildFlowUrl(config, config.uploadFlowId);
-
-    // Invoke the upload flow
-    const response = await invokeCloudFlow<IUploadFlowRequest, IUploadFlowResponse>(
-      flowUrl,
+    // Invoke the upload flow; the body is Base64 JSON, so scale its progress to the file's bytes
+    const response = await invokeCloudFlowWithProgress<IUploadFlowRequest, IUploadFlowResponse>(
+      uploadUrl,
       uploadRequest,
-      config
+      trackedOptions,
+      onProgress
+        ? (sentBytes, totalBytes) => onProgress(createTransferProgressEvent((sentBytes / totalBytes) * file.size, file.size))
+        : undefined
     );
 
-    // Simulate progress completion
-    if (onProgress) {
-      onProgress({
-        loadedBytes: file.size,
-        totalBytes: file.size,
-        percentage: 100,
-      });
-    }
-
     // Return standardized result
     return {
-      fileName: response.fileName,
-      url: response.url,
+      fileName: response.fileName || file.name,
+      url: response.url || '',
       success: response.success,
-      error: response.error,
+      error: response.success ? undefined : response.error || 'Upload failed',
       flowRunId: response.flowRunId,
+      attempts: attempts,
+      conflictAction: conflictAction,
     };
   } catch (error) {
-    console.error('Cloud Flow upload error:', error);
+    if (!(error instanceof FlowCancelledError)) {
+      console.error('Cloud Flow upload error:', error);
+    }
     return {
       fileName: file.name,
       url: "",
       success: false,
       error: error instanceof Error ? error.message : String(error),
+      attempts: attempts,
+      cancelled: error instanceof FlowCancelledError,
     };
   }
 };
 
 /**
- * Uploads multiple files using Power Automate Cloud Flow sequentially
- * @param files - Array of files to upload
- * @param config - Cloud Flow configuration
- * @param folderName - Optional folder name where the files should be uploaded
- * @param onProgress - Optional callback for tracking individual file upload progress
- * @returns Promise resolving to array of upload results for each file
+ * Creates the storage provider that calls the Power Automate Cloud Flow trigger URLs
+ * @param config - Cloud Flow storage configuration
+ * @returns Storage provider backed by the flows
  */
-export const uploadMultipleFilesToCloudFlow = async (
-  files: File[],
-  config: ICloudFlowConfig,
-  folderName?: string,
-  onProgress?: (fileName: string, progress: TransferProgressEvent) => void
-): Promise<IUploadResult[]> => {
-  const results: IUploadResult[] = [];
+export const createCloudFlowStorageProvider = (config: ICloudFlowStorageConfig): IStorageProvider => {
+  // Folder, rename, move, copy and restore calls are not idempotent: a retry after a timeout
+  // could repeat an operation that succeeded, so they are attempted once
+  const singleAttemptOptions: IFlowTriggerOptions = {
+    authToken: config.authToken,
+    timeout: config.timeout,
+  };
 
-  // Process files sequentially to avoid overwhelming the flow
-  for (const file of files) {
-    const result = await uploadFileToCloudFlow(
-      file,
-      config,
-      folderName,
-      // Wrap progress callback to include filename for multi-file tracking
-      onProgress ? (progress: TransferProgressEvent) => onProgress(file.name, progress) : undefined
+  const isConfigured = (): boolean => {
+    return !!(
+      config.uploadUrl &&
+      config.listFilesUrl &&
+      config.deleteUrl &&
+      config.downloadUrl &&
+      config.containerPath
     );
-    if (result) {
-      results.push(result);
-    }
-  }
+  };
 
-  return results;
-};
-
-/**
- * Lists all existing files using Power Automate Cloud Flow
- * @param config - Cloud Flow configuration
- * @param folderName - Optional folder name to filter results
- * @returns Promise resolving to array of existing file information
- */
-export const listExistingFilesFromCloudFlow = async (
-  config: ICloudFlowConfig,
-  folderName?: string
-): Promise<IExistingFile[]> => {
-  try {
-    // Prepare request payload
+  // Calls the list files flow for the whole folder, or a page of it when a page size is given
+  const requestFilesPage = async (folderPath: string, pageSize?: number, continuationToken?: string): Promise<IListFilesPage> => {
     const listRequest: IListFilesFlowRequest = {
       containerPath: config.containerPath,
-      folderName: folderName,
+      folderName: folderPath,
+      pageSize,
+      continuationToken,
+    };
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
     };
+    if (config.authToken) {
+      headers['Authorization'] = `Bearer ${config.authToken}`;
+    }
 
-    // Build flow URL
-    const flowUrl = buildFlowUrl(config, config.listFilesFlowId);
+    // Call the list files flow, retrying transient failures
+    const response = await fetchWithRetry(config.listFilesUrl, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(listRequest),
+    }, config.retryPolicy, config.onRetry);
 
-    // Invoke the list files flow
-    const response = await invokeCloudFlow<IListFilesFlowRequest, IListFilesFlowResponse>(
-      flowUrl,
-      listRequest,
-      config
-    );
+    // Parse the response regardless of status code to check for files array
+    let result: IListFilesFlowResponse;
+    try {
+      result = await response.json();
+    } catch (parseError) {
+      // If we can't parse JSON and response is not ok, throw the HTTP error
+      if (!response.ok) {
+        throw new Error(`List files failed: ${response.statusText}`);
+      }
+      throw new Error('Failed to parse response');
+    }
 
-    if (!response.success) {
-      console.error('List files flow failed:', response.error);
-      return [];
+    // A files array (even an empty one) is accepted even when the flow reports a failure
+    const hasValidFilesArray = result.files && Array.isArray(result.files);
+    if ((!response.ok || !result.success) && !hasValidFilesArray) {
+      throw new Error(result.error || `List files failed: ${response.statusText}`);
     }
 
-    // Convert response to standardized format
-    return response.files.map(file => ({
+    // Convert response to standardized format, subfolders first
+    const folders: IExistingFile[] = (result.folders || []).map(folderName => ({
+      name: folderName,
+      size: 0,
+      url: '',
+      lastModified: new Date(),
+      isFolder: true,
+    }));
+    const entries = folders.concat((result.files || []).map(file => ({
       name: file.name,
       size: file.size,
       url: file.url,
       lastModified: new Date(file.lastModified),
       metadata: file.metadata,
-    }));
-  } catch (error) {
-    console.error('Error listing files from Cloud Flow:', error);
-    return [];
-  }
-};
+    })));
+    return { entries, continuationToken: result.continuationToken || undefined };
+  };
 
-/**
- * Generates a SAS URL for viewing a specific file using Power Automate Cloud Flow
- * @param fileName - Name of the file to generate view URL for
- * @param config - Cloud Flow configuration
- * @param folderName - Optional folder name where the file is located
- * @returns Promise resolving to view URL generation result
- */
-export const generateViewUrlFromCloudFlow = async (
-  fileName: string,
-  config: ICloudFlowConfig,
-  folderName?: string
-): Promise<IGenerateViewUrlResult> => {
-  try {
-    // Prepare the file path based on folder structure
-    const filePath = folderName ? `${folderName}/${fileName}` : fileName;
-    
-    // Prepare request payload
-    const generateViewUrlRequest: IGenerateViewUrlFlowRequest = {
-      containerPath: config.containerPath,
-      filePath: filePath,
+  const listFiles = async (folderPath: string): Promise<IExistingFile[]> => {
+    return (await requestFilesPage(folderPath)).entries;
+  };
+
+  const listFilesPage = (folderPath: string, pageSize: number, continuationToken?: string): Promise<IListFilesPage> => {
+    return requestFilesPage(folderPath, pageSize, continuationToken);
+  };
+
+  const uploadFile = (file: File, folderPath: string, options: IUploadOptions = {}): Promise<IUploadResult> => {
+    const flowOptions: IFlowTriggerOptions = {
+      authToken: config.authToken,
+      timeout: config.timeout,
+      retryPolicy: config.retryPolicy,
+      onRetry: options.onRetry,
+      signal: options.signal,
     };
 
-    // Build flow URL
-    const flowUrl = buildFlowUrl(config, config.generateViewUrlFlowId);
+    // Files larger than one block go through the chunked upload flows when configured
+    if (config.uploadBlockUrl && config.commitBlocksUrl && file.size > config.blockSize) {
+      return uploadFileInBlocksToCloudFlow(
+        file,
+        {
+          ...flowOptions,
+          uploadBlockUrl: config.uploadBlockUrl,
+          commitBlocksUrl: config.commitBlocksUrl,
+          containerPath: config.containerPath,
+          blockSize: config.blockSize,
+          conflictAction: options.conflictAction,
+          keepPreviousVersion: config.versioning,
+          metadata: options.metadata,
+        },
+        folderPath,
+        options.onProgress
+      );
+    }
+
+    return uploadFileToFlowUrl(
+      file,
+      config.uploadUrl,
+      config.containerPath,
+      folderPath,
+      options.onProgress,
+      flowOptions,
+      options.conflictAction,
+      config.versioning,
+      options.metadata
+    );
+  };
+
+  const deleteFile = async (fileName: string, folderPath: string): Promise<IDeleteResult> => {
+    try {
+      const response = await invokeCloudFlow<IDeleteFlowRequest, IDeleteFlowResponse>(
+        config.deleteUrl,
+        {
+          fileName: fileName,
+          containerPath: config.containerPath,
+          folderName: folderPath || undefined,
+          softDelete: config.softDelete || undefined,
+          retentionDays: config.softDelete ? config.retentionDays : undefined,
+        },
+        config
+      );
+
+      return {
+        fileName: response.fileName || fileName,
+        success: response.success,
+        error: response.success ? undefined : response.error || 'Failed to delete file',
+        flowRunId: response.flowRunId,
+        deletedId: response.deletedId,
+      };
+    } catch (error) {
+      console.error(`Error deleting file ${fileName} from Cloud Flow:`, error);
+      return {
+        fileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  // Downloads the current file, or one of its prior versions when a version ID is given
+  const downloadFromFlow = async (fileName: string, folderPath: string, versionId?: string): Promise<IDownloadResult> => {
+    try {
+      const response = await invokeCloudFlow<IDownloadFlowRequest, IDownloadFlowResponse>(
+        config.downloadUrl,
+        {
+          storageAccountName: config.containerPath,
+          filePath: folderPath ? `${folderPath}/${fileName}` : fileName,
+          fileName: fileName,
+          versionId: versionId,
+        },
+        config
+      );
+
+      // Power Automate responses may wrap the payload in a body property
+      const result = response.fileContent ? response : response.body;
+      if (!result?.fileContent || !result.contentType || !result.fileName) {
+        console.error('Unexpected response structure:', response);
+        return {
+          fileName,
+          success: false,
+          error: response.error || response.body?.error || 'Failed to download file - missing file content in response',
+        };
+      }
+
+      return {
+        fileName: result.fileName,
+        success: true,
+        fileContent: result.fileContent,
+        contentType: result.contentType,
+        fileSize: result.fileSize || 0,
+      };
+    } catch (error) {
+      console.error(`Error downloading file ${fileName} from Cloud Flow:`, error);
+      return {
+        fileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  const downloadFile = (fileName: string, folderPath: string): Promise<IDownloadResult> => {
+    return downloadFromFlow(fileName, folderPath);
+  };
+
+  const createFolder = async (folderName: string, folderPath: string): Promise<ICreateFolderResult> => {
+    try {
+      const response = await invokeCloudFlow<ICreateFolderFlowRequest, ICreateFolderFlowResponse>(
+        config.createFolderUrl!,
+        {
+          containerPath: config.containerPath,
+          folderName: folderPath || undefined,
+          newFolderName: folderName,
+        },
+        singleAttemptOptions
+      );
+
+      return {
+        folderName: response.folderName || folderName,
+        success: response.success,
+        error: response.success ? undefined : response.error || 'Failed to create folder',
+        flowRunId: response.flowRunId,
+      };
+    } catch (error) {
+      console.error(`Error creating folder ${folderName} from Cloud Flow:`, error);
+      return {
+        folderName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  const renameFile = async (fileName: string, newFileName: string, folderPath: string): Promise<IRenameResult> => {
+    try {
+      const response = await invokeCloudFlow<IRenameFlowRequest, IRenameFlowResponse>(
+        config.renameUrl!,
+        {
+          containerPath: config.containerPath,
+          folderName: folderPath || undefined,
+          fileName: fileName,
+          newFileName: newFileName,
+        },
+        singleAttemptOptions
+      );
+
+      return {
+        fileName: response.fileName || fileName,
+        newFileName: response.newFileName || newFileName,
+        success: response.success,
+        error: response.success ? undefined : response.error || 'Failed to rename file',
+      };
+    } catch (error) {
+      console.error(`Error renaming file ${fileName} from Cloud Flow:`, error);
+      return {
+        fileName,
+        newFileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  // Moves or copies a file to another folder through the given flow
+  const transferFile = async (
+    flowUrl: string,
+    fileName: string,
+    folderPath: string,
+    targetFolderPath: string
+  ): Promise<IRenameResult> => {
+    try {
+      const response = await invokeCloudFlow<ITransferFlowRequest, ITransferFlowResponse>(
+        flowUrl,
+        {
+          containerPath: config.containerPath,
+          folderName: folderPath || undefined,
+          fileName: fileName,
+          targetFolderName: targetFolderPath,
+        },
+        singleAttemptOptions
+      );
 
-    // Invoke the generate view URL flow
-    const response = await invokeCloudFlow<IGenerateViewUrlFlowRequest, IGenerateViewUrlFlowResponse>(
-      flowUrl,
-      generateViewUrlRequest,
+      return {
+        fileName,
+        newFileName: response.fileName || fileName,
+        success: response.success,
+        error: response.success ? undefined : response.error || 'Failed to transfer file',
+      };
+    } catch (error) {
+      console.error(`Error transferring file ${fileName} to ${targetFolderPath} from Cloud Flow:`, error);
+      return {
+        fileName,
+        newFileName: fileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  const moveFile = (fileName: string, folderPath: string, targetFolderPath: string): Promise<IRenameResult> => {
+    return transferFile(config.moveUrl!, fileName, folderPath, targetFolderPath);
+  };
+
+  const copyFile = (fileName: string, folderPath: string, targetFolderPath: string): Promise<IRenameResult> => {
+    return transferFile(config.copyUrl!, fileName, folderPath, targetFolderPath);
+  };
+
+  const listVersions = async (fileName: string, folderPath: string): Promise<IFileVersion[]> => {
+    const response = await invokeCloudFlow<IListVersionsFlowRequest, IListVersionsFlowResponse>(
+      config.listVersionsUrl!,
+      {
+        containerPath: config.containerPath,
+        folderName: folderPath || undefined,
+        fileName: fileName,
+      },
       config
     );
+    if (!response.success || !Array.isArray(response.versions)) {
+      throw new Error(response.error || 'List versions failed');
+    }
 
-    return {
-      fileName: response.fileName,
-      viewUrl: response.viewUrl,
-      success: response.success,
-      error: response.error,
-      flowRunId: response.flowRunId,
-    };
-  } catch (error) {
-    console.error(`Error generating view URL for file ${fileName} from Cloud Flow:`, error);
-    return {
-      fileName,
-      viewUrl: "",
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-    };
-  }
-};
+    return response.versions
+      .map(version => ({
+        versionId: version.versionId,
+        size: version.size,
+        lastModified: new Date(version.lastModified),
+        metadata: version.metadata,
+      }))
+      .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+  };
 
-/**
- * Deletes a specific file using Power Automate Cloud Flow
- * @param fileName - Name of the file to delete
- * @param config - Cloud Flow configuration
- * @param folderName - Optional folder name where the file is located
- * @returns Promise resolving to deletion result
- */
-export const deleteFileFromCloudFlow = async (
-  fileName: string,
-  config: ICloudFlowConfig,
-  folderName?: string
-): Promise<IDeleteResult> => {
-  try {
-    // Prepare request payload
-    const deleteRequest: IDeleteFlowRequest = {
-      fileName: fileName,
-      containerPath: config.containerPath,
-      folderName: folderName,
-    };
+  const downloadVersion = (fileName: string, folderPath: string, versionId: string): Promise<IDownloadResult> => {
+    return downloadFromFlow(fileName, folderPath, versionId);
+  };
 
-    // Build flow URL
-    const flowUrl = buildFlowUrl(config, config.deleteFlowId);
+  const restoreVersion = async (fileName: string, folderPath: string, versionId: string): Promise<IRestoreVersionResult> => {
+    try {
+      // The flow copies the version over the current file, which it keeps as a version in turn
+      const response = await invokeCloudFlow<IRestoreVersionFlowRequest, IRestoreVersionFlowResponse>(
+        config.restoreVersionUrl!,
+        {
+          containerPath: config.containerPath,
+          folderName: folderPath || undefined,
+          fileName: fileName,
+          versionId: versionId,
+        },
+        singleAttemptOptions
+      );
 
-    // Invoke the delete flow
-    const response = await invokeCloudFlow<IDeleteFlowRequest, IDeleteFlowResponse>(
-      flowUrl,
-      deleteRequest,
+      return {
+        fileName: response.fileName || fileName,
+        versionId,
+        success: response.success,
+        error: response.success ? undefined : response.error || 'Failed to restore version',
+        flowRunId: response.flowRunId,
+      };
+    } catch (error) {
+      console.error(`Error restoring version ${versionId} of file ${fileName} from Cloud Flow:`, error);
+      return {
+        fileName,
+        versionId,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  const listDeletedFiles = async (folderPath: string): Promise<IDeletedFile[]> => {
+    const response = await invokeCloudFlow<IListDeletedFlowRequest, IListDeletedFlowResponse>(
+      config.listDeletedUrl!,
+      {
+        containerPath: config.containerPath,
+        folderName: folderPath || undefined,
+      },
       config
     );
+    if (!response.success || !Array.isArray(response.files)) {
+      throw new Error(response.error || 'List deleted files failed');
+    }
 
-    return {
-      fileName: response.fileName,
-      success: response.success,
-      error: response.error,
-      flowRunId: response.flowRunId,
-    };
-  } catch (error) {
-    console.error(`Error deleting file ${fileName} from Cloud Flow:`, error);
-    return {
-      fileName,
-      success: false,
-      error: error instanceof Error ? error.message : String(error),
-    };
-  }
-};
+    return response.files
+      .map(file => ({
+        name: file.name,
+        size: file.size,
+        deletedId: file.deletedId,
+        deletedOn: new Date(file.deletedOn),
+        expiresOn: file.expiresOn ? new Date(file.expiresOn) : undefined,
+        metadata: file.metadata,
+      }))
+      .sort((a, b) => b.deletedOn.getTime() - a.deletedOn.getTime());
+  };
 
-/**
- * Utility function to validate Cloud Flow configuration
- * @param config - Configuration to validate
- * @returns Boolean indicating if configuration is valid
- */
-export const validateCloudFlowConfig = (config: ICloudFlowConfig): boolean => {
-  return !!(
-    config.environmentUrl &&
-    config.authToken &&
-    config.uploadFlowId &&
-    config.listFilesFlowId &&
-    config.deleteFlowId &&
-    config.generateViewUrlFlowId &&
-    config.containerPath
-  );
-};
+  const restoreDeletedFile = async (fileName: string, folderPath: string, deletedId: string): Promise<IRestoreDeletedFileResult> => {
+    try {
+      const response = await invokeCloudFlow<IRestoreDeletedFlowRequest, IRestoreDeletedFlowResponse>(
+        config.restoreDeletedUrl!,
+        {
+          containerPath: config.containerPath,
+          folderName: folderPath || undefined,
+          fileName: fileName,
+          deletedId: deletedId,
+        },
+        singleAttemptOptions
+      );
+
+      return {
+        fileName: response.fileName || fileName,
+        deletedId,
+        success: response.success,
+        error: response.success ? undefined : response.error || 'Failed to restore file',
+        flowRunId: response.flowRunId,
+      };
+    } catch (error) {
+      console.error(`Error restoring deleted file ${fileName} from Cloud Flow:`, error);
+      return {
+        fileName,
+        deletedId,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  const generateViewUrl = async (fileName: string, folderPath: string): Promise<IGenerateViewUrlResult> => {
+    try {
+      if (!config.generateViewUrlUrl) {
+        throw new Error('Generate view URL flow is not configured');
+      }
+
+      const response = await invokeCloudFlow<IGenerateViewUrlFlowRequest, IGenerateViewUrlFlowResponse>(
+        config.generateViewUrlUrl,
+        {
+          containerPath: config.containerPath,
+          filePath: folderPath ? `${folderPath}/${fileName}` : fileName,
+        },
+        config
+      );
+
+      return {
+        fileName: response.fileName || fileName,
+        viewUrl: response.viewUrl,
+        success: response.success,
+        error: response.error,
+        flowRunId: response.flowRunId,
+      };
+    } catch (error) {
+      console.error(`Error generating view URL for file ${fileName} from Cloud Flow:`, error);
+      return {
+        fileName,
+        viewUrl: "",
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  // Version history needs versioning mode and both version flows
+  const hasVersionHistory = !!(config.versioning && config.listVersionsUrl && config.restoreVersionUrl);
+  // The recycle bin needs soft delete mode and both recycle bin flows
+  const hasRecycleBin = !!(config.softDelete && config.listDeletedUrl && config.restoreDeletedUrl);
 
-// Export the main upload function as default for backward compatibility
-export default uploadFileToCloudFlow;
+  return {
+    name: 'cloudflow',
+    isConfigured,
+    listFiles,
+    listFilesPage,
+    uploadFile,
+    deleteFile,
+    downloadFile,
+    generateViewUrl: config.generateViewUrlUrl ? generateViewUrl : undefined,
+    createFolder: config.createFolderUrl ? createFolder : undefined,
+    renameFile: config.renameUrl ? renameFile : undefined,
+    moveFile: config.moveUrl ? moveFile : undefined,
+    copyFile: config.copyUrl ? copyFile : undefined,
+    listVersions: hasVersionHistory ? listVersions : undefined,
+    downloadVersion: hasVersionHistory ? downloadVersion : undefined,
+    restoreVersion: hasVersionHistory ? restoreVersion : undefined,
+    listDeletedFiles: hasRecycleBin ? listDeletedFiles : undefined,
+    restoreDeletedFile: hasRecycleBin ? restoreDeletedFile : undefined,
+  };
+};
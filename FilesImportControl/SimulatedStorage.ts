@@ -0,0 +1,467 @@
+/**
+ * SimulatedStorage.ts
+ *
+ * Storage provider that keeps files in the browser's IndexedDB instead of a
+ * remote backend. It simulates network latency, upload progress and transient
+ * failures, so the full upload UI can be demoed and tested without deployed flows.
+ * Folders are marker records, listed alongside the files of their parent folder.
+ * In soft delete mode deleted files are kept as recycle bin records until their
+ * retention expires.
+ */
+
+import {
+  IStorageProvider,
+  IUploadResult,
+  IExistingFile,
+  IListFilesPage,
+  IDeleteResult,
+  IDownloadResult,
+  IUploadOptions,
+  IRenameResult,
+  ICreateFolderResult,
+  IDeletedFile,
+  IRestoreDeletedFileResult,
+  fileToBase64,
+  createTransferProgressEvent,
+} from "./StorageProvider";
+import {
+  IRetryPolicy,
+  FlowRequestError,
+  FlowCancelledError,
+  withRetry,
+} from "./PowerAutomateCloudFlows";
+import { openObjectStoreDatabase, runStoreRequest } from "./IndexedDbStore";
+
+/**
+ * Configuration of the simulation storage provider
+ */
+export interface ISimulatedStorageConfig {
+  /** Average delay of every operation (in milliseconds) */
+  latencyMs: number;
+  /** Share of operations failing with a simulated 503 response (0-100) */
+  failureRate: number;
+  /** Optional retry policy applied to the simulated failures */
+  retryPolicy?: IRetryPolicy;
+  /** Whether deleted files are kept in the recycle bin instead of being removed */
+  softDelete?: boolean;
+  /** Days a soft deleted file is kept in the recycle bin */
+  retentionDays?: number;
+}
+
+/**
+ * File stored in the simulation database
+ */
+interface ISimulatedFileRecord {
+  /** Folder path and file name, the key of the record */
+  path: string;
+  folderPath: string;
+  name: string;
+  size: number;
+  contentType: string;
+  lastModified: number;
+  content: Blob;
+  /** Whether the record marks a subfolder of folderPath rather than a file */
+  isFolder?: boolean;
+  /** When a recycle bin record was deleted */
+  deletedOn?: number;
+  /** Metadata sent with the upload */
+  metadata?: Record<string, string>;
+}
+
+/** IndexedDB database and store holding the simulated files */
+const SIMULATION_DATABASE_NAME = 'fileUploadControlSimulation';
+const SIMULATION_STORE_NAME = 'files';
+
+/** Prefix of the folder paths and keys of recycle bin records; '|' cannot occur in file or folder names */
+const RECYCLE_BIN_PREFIX = '|deleted|';
+
+/** Number of progress events reported while a simulated upload is in flight */
+const SIMULATED_PROGRESS_STEPS = 10;
+
+/**
+ * Builds the key of a file in the simulation store
+ * @param folderPath - Folder path of the file
+ * @param fileName - Name of the file
+ * @returns Key of the file record
+ */
+const getFilePath = (folderPath: string, fileName: string): string => {
+  return folderPath ? `${folderPath}/${fileName}` : fileName;
+};
+
+/**
+ * Waits for a delay, rejecting with a FlowCancelledError when the signal aborts
+ * @param delayMs - Delay in milliseconds
+ * @param signal - Optional signal ending the wait
+ * @returns Promise resolving after the delay
+ */
+const simulateDelay = (delayMs: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new FlowCancelledError());
+      return;
+    }
+    const onAbort = () => reject(new FlowCancelledError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+    setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+  });
+};
+
+/**
+ * Creates the storage provider that keeps files in IndexedDB
+ * @param config - Simulation configuration
+ * @returns Storage provider backed by the browser
+ */
+export const createSimulatedStorageProvider = (config: ISimulatedStorageConfig): IStorageProvider => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const getDatabase = (): Promise<IDBDatabase> => {
+    if (!database) {
+      database = openObjectStoreDatabase(SIMULATION_DATABASE_NAME, SIMULATION_STORE_NAME, 'path', ['folderPath']);
+    }
+    return database;
+  };
+
+  // Latency varies between half and one and a half times the configured value
+  const getLatency = (): number => {
+    return Math.max(0, config.latencyMs) * (0.5 + Math.random());
+  };
+
+  // Fails like a throttled or unavailable flow, so the retry policy applies
+  const simulateFailure = () => {
+    if (Math.random() * 100 < config.failureRate) {
+      throw new FlowRequestError('Flow execution failed: 503 Service Unavailable (simulated)', 503);
+    }
+  };
+
+  // Runs a simulated call: latency, failure injection and retries
+  const simulateCall = <T>(
+    operation: () => Promise<T>,
+    onRetry?: (attempt: number, error: Error, delayMs: number) => void,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    return withRetry(async () => {
+      await simulateDelay(getLatency(), signal);
+      simulateFailure();
+      return operation();
+    }, config.retryPolicy, onRetry, signal);
+  };
+
+  const isConfigured = (): boolean => {
+    return true;
+  };
+
+  // Records of a folder, ordered by path
+  const readFolderRecords = async (folderPath: string): Promise<ISimulatedFileRecord[]> => {
+    return runStoreRequest<ISimulatedFileRecord[]>(
+      await getDatabase(),
+      SIMULATION_STORE_NAME,
+      'readonly',
+      store => store.index('folderPath').getAll(folderPath)
+    );
+  };
+
+  const toExistingFile = (record: ISimulatedFileRecord): IExistingFile => ({
+    name: record.name,
+    size: record.size,
+    url: '',
+    lastModified: new Date(record.lastModified),
+    metadata: record.isFolder ? undefined : { ...record.metadata, contentType: record.contentType, simulated: true },
+    isFolder: record.isFolder,
+  });
+
+  const listFiles = (folderPath: string): Promise<IExistingFile[]> => {
+    return simulateCall(async () => (await readFolderRecords(folderPath)).map(toExistingFile));
+  };
+
+  const listFilesPage = (folderPath: string, pageSize: number, continuationToken?: string): Promise<IListFilesPage> => {
+    return simulateCall(async () => {
+      // The continuation token is the index of the first record of the page
+      const records = await readFolderRecords(folderPath);
+      const start = Number(continuationToken) || 0;
+      const end = start + Math.max(1, pageSize);
+      return {
+        entries: records.slice(start, end).map(toExistingFile),
+        continuationToken: end < records.length ? String(end) : undefined,
+      };
+    });
+  };
+
+  const uploadFile = async (file: File, folderPath: string, options: IUploadOptions = {}): Promise<IUploadResult> => {
+    let attempts = 1;
+
+    try {
+      await withRetry(async (attempt) => {
+        attempts = attempt;
+
+        // Report progress in steps spread over the simulated latency
+        const stepDelay = getLatency() / SIMULATED_PROGRESS_STEPS;
+        for (let step = 0; step <= SIMULATED_PROGRESS_STEPS; step++) {
+          if (options.onProgress) {
+            options.onProgress(createTransferProgressEvent((file.size * step) / SIMULATED_PROGRESS_STEPS, file.size));
+          }
+          if (step < SIMULATED_PROGRESS_STEPS) {
+            await simulateDelay(stepDelay, options.signal);
+          }
+        }
+        simulateFailure();
+
+        const record: ISimulatedFileRecord = {
+          path: getFilePath(folderPath, file.name),
+          folderPath: folderPath,
+          name: file.name,
+          size: file.size,
+          contentType: file.type || 'application/octet-stream',
+          lastModified: Date.now(),
+          content: file,
+          metadata: options.metadata,
+        };
+        await runStoreRequest(await getDatabase(), SIMULATION_STORE_NAME, 'readwrite', store => store.put(record));
+      }, config.retryPolicy, options.onRetry, options.signal);
+
+      return {
+        fileName: file.name,
+        url: '',
+        success: true,
+        flowRunId: `simulated-${Date.now()}`,
+        attempts: attempts,
+      };
+    } catch (error) {
+      return {
+        fileName: file.name,
+        url: '',
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        attempts: attempts,
+        cancelled: error instanceof FlowCancelledError,
+      };
+    }
+  };
+
+  // Retention of the recycle bin in milliseconds
+  const getRetentionMs = (): number => {
+    return Math.max(config.retentionDays || 0, 1) * 24 * 60 * 60 * 1000;
+  };
+
+  // Moves a file to the recycle bin, returning the key of its recycle bin record
+  const moveToRecycleBin = async (fileName: string, folderPath: string): Promise<string> => {
+    const db = await getDatabase();
+    const path = getFilePath(folderPath, fileName);
+    const record = await runStoreRequest<ISimulatedFileRecord | undefined>(db, SIMULATION_STORE_NAME, 'readonly', store =>
+      store.get(path)
+    );
+    if (!record) {
+      throw new Error(`File ${fileName} was not found`);
+    }
+    const deletedOn = Date.now();
+    const deletedRecord: ISimulatedFileRecord = {
+      ...record,
+      path: `${RECYCLE_BIN_PREFIX}${deletedOn}|${path}`,
+      folderPath: `${RECYCLE_BIN_PREFIX}${folderPath}`,
+      deletedOn,
+    };
+    await runStoreRequest(db, SIMULATION_STORE_NAME, 'readwrite', store => store.put(deletedRecord));
+    await runStoreRequest(db, SIMULATION_STORE_NAME, 'readwrite', store => store.delete(path));
+    return deletedRecord.path;
+  };
+
+  const deleteFile = async (fileName: string, folderPath: string): Promise<IDeleteResult> => {
+    try {
+      if (config.softDelete) {
+        const deletedId = await simulateCall(() => moveToRecycleBin(fileName, folderPath));
+        return { fileName, success: true, deletedId };
+      }
+      await simulateCall(async () =>
+        runStoreRequest(await getDatabase(), SIMULATION_STORE_NAME, 'readwrite', store =>
+          store.delete(getFilePath(folderPath, fileName))
+        )
+      );
+      return { fileName, success: true };
+    } catch (error) {
+      return {
+        fileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  const downloadFile = async (fileName: string, folderPath: string): Promise<IDownloadResult> => {
+    try {
+      const record = await simulateCall(async () =>
+        runStoreRequest<ISimulatedFileRecord | undefined>(await getDatabase(), SIMULATION_STORE_NAME, 'readonly', store =>
+          store.get(getFilePath(folderPath, fileName))
+        )
+      );
+      if (!record) {
+        throw new Error(`File ${fileName} was not found`);
+      }
+
+      return {
+        fileName: record.name,
+        success: true,
+        fileContent: await fileToBase64(record.content),
+        contentType: record.contentType,
+        fileSize: record.size,
+      };
+    } catch (error) {
+      return {
+        fileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  const createFolder = async (folderName: string, folderPath: string): Promise<ICreateFolderResult> => {
+    try {
+      // The trailing slash keeps the marker apart from a file of the same name
+      const record: ISimulatedFileRecord = {
+        path: `${getFilePath(folderPath, folderName)}/`,
+        folderPath: folderPath,
+        name: folderName,
+        size: 0,
+        contentType: '',
+        lastModified: Date.now(),
+        content: new Blob(),
+        isFolder: true,
+      };
+      await simulateCall(async () =>
+        runStoreRequest(await getDatabase(), SIMULATION_STORE_NAME, 'readwrite', store => store.put(record))
+      );
+      return { folderName, success: true };
+    } catch (error) {
+      return {
+        folderName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  // Writes a file under a new folder and name, removing the original unless it is copied
+  const relocateFile = async (
+    fileName: string,
+    folderPath: string,
+    targetFolderPath: string,
+    newFileName: string,
+    keepOriginal: boolean
+  ): Promise<IRenameResult> => {
+    try {
+      await simulateCall(async () => {
+        const db = await getDatabase();
+        const record = await runStoreRequest<ISimulatedFileRecord | undefined>(db, SIMULATION_STORE_NAME, 'readonly', store =>
+          store.get(getFilePath(folderPath, fileName))
+        );
+        if (!record) {
+          throw new Error(`File ${fileName} was not found`);
+        }
+        const relocatedRecord: ISimulatedFileRecord = {
+          ...record,
+          path: getFilePath(targetFolderPath, newFileName),
+          folderPath: targetFolderPath,
+          name: newFileName,
+          lastModified: Date.now(),
+        };
+        await runStoreRequest(db, SIMULATION_STORE_NAME, 'readwrite', store => store.put(relocatedRecord));
+        if (!keepOriginal) {
+          await runStoreRequest(db, SIMULATION_STORE_NAME, 'readwrite', store => store.delete(record.path));
+        }
+      });
+      return { fileName, newFileName, success: true };
+    } catch (error) {
+      return {
+        fileName,
+        newFileName,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  const renameFile = (fileName: string, newFileName: string, folderPath: string): Promise<IRenameResult> => {
+    return relocateFile(fileName, folderPath, folderPath, newFileName, false);
+  };
+
+  const moveFile = (fileName: string, folderPath: string, targetFolderPath: string): Promise<IRenameResult> => {
+    return relocateFile(fileName, folderPath, targetFolderPath, fileName, false);
+  };
+
+  const copyFile = (fileName: string, folderPath: string, targetFolderPath: string): Promise<IRenameResult> => {
+    return relocateFile(fileName, folderPath, targetFolderPath, fileName, true);
+  };
+
+  const listDeletedFiles = (folderPath: string): Promise<IDeletedFile[]> => {
+    return simulateCall(async () => {
+      const db = await getDatabase();
+      const records = await readFolderRecords(`${RECYCLE_BIN_PREFIX}${folderPath}`);
+      const deletedFiles: IDeletedFile[] = [];
+      for (const record of records) {
+        const expiresOn = (record.deletedOn || 0) + getRetentionMs();
+        // Files past their retention are removed for good
+        if (expiresOn <= Date.now()) {
+          await runStoreRequest(db, SIMULATION_STORE_NAME, 'readwrite', store => store.delete(record.path));
+          continue;
+        }
+        deletedFiles.push({
+          name: record.name,
+          size: record.size,
+          deletedId: record.path,
+          deletedOn: new Date(record.deletedOn || 0),
+          expiresOn: new Date(expiresOn),
+          metadata: { contentType: record.contentType, simulated: true },
+        });
+      }
+      return deletedFiles.sort((a, b) => b.deletedOn.getTime() - a.deletedOn.getTime());
+    });
+  };
+
+  const restoreDeletedFile = async (fileName: string, folderPath: string, deletedId: string): Promise<IRestoreDeletedFileResult> => {
+    try {
+      await simulateCall(async () => {
+        const db = await getDatabase();
+        const record = await runStoreRequest<ISimulatedFileRecord | undefined>(db, SIMULATION_STORE_NAME, 'readonly', store =>
+          store.get(deletedId)
+        );
+        if (!record || (record.deletedOn || 0) + getRetentionMs() <= Date.now()) {
+          throw new Error(`File ${fileName} is no longer in the recycle bin`);
+        }
+        // A file uploaded under the same name in the meantime is replaced
+        const restoredRecord: ISimulatedFileRecord = {
+          ...record,
+          path: getFilePath(folderPath, record.name),
+          folderPath: folderPath,
+          deletedOn: undefined,
+        };
+        await runStoreRequest(db, SIMULATION_STORE_NAME, 'readwrite', store => store.put(restoredRecord));
+        await runStoreRequest(db, SIMULATION_STORE_NAME, 'readwrite', store => store.delete(deletedId));
+      });
+      return { fileName, deletedId, success: true };
+    } catch (error) {
+      return {
+        fileName,
+        deletedId,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+
+  return {
+    name: 'simulation',
+    isConfigured,
+    listFiles,
+    listFilesPage,
+    uploadFile,
+    deleteFile,
+    downloadFile,
+    createFolder,
+    renameFile,
+    moveFile,
+    copyFile,
+    listDeletedFiles: config.softDelete ? listDeletedFiles : undefined,
+    restoreDeletedFile: config.softDelete ? restoreDeletedFile : undefined,
+  };
+};
@@ -0,0 +1,377 @@
+/**
+ * StorageProvider.ts
+ *
+ * The storage contract the control depends on. Every backend (the Power Automate
+ * flow triggers, Dataverse, ...) implements IStorageProvider, so the component
+ * never talks to a transport directly.
+ */
+
+/**
+ * What an upload does when a file with the same name already exists:
+ * replace it, upload under a free name ("contract (1).pdf") or not upload at all
+ */
+export type ConflictAction = 'Overwrite' | 'AutoRename' | 'Skip';
+
+/**
+ * Event object containing transfer progress information
+ */
+export interface TransferProgressEvent {
+  /** Number of bytes loaded/transferred so far */
+  loadedBytes: number;
+  /** Total file size in bytes */
+  totalBytes?: number;
+  /** Progress percentage (0-100) */
+  percentage?: number;
+}
+
+/**
+ * Result object returned after file upload operation
+ */
+export interface IUploadResult {
+  /** Name of the uploaded file */
+  fileName: string;
+  /** Full URL where the file can be accessed */
+  url: string;
+  /** Whether the upload was successful */
+  success: boolean;
+  /** Error message if upload failed */
+  error?: string;
+  /** Flow execution ID for tracking */
+  flowRunId?: string;
+  /** Number of attempts made, including retries */
+  attempts?: number;
+  /** Whether the upload was cancelled by the user */
+  cancelled?: boolean;
+  /** Action taken because a file with the same name already existed */
+  conflictAction?: ConflictAction;
+}
+
+/**
+ * Information about an existing file in storage
+ */
+export interface IExistingFile {
+  /** File name */
+  name: string;
+  /** File size in bytes */
+  size: number;
+  /** Full URL where the file can be accessed */
+  url: string;
+  /** Date when the file was last modified */
+  lastModified: Date;
+  /** Additional metadata returned by the storage */
+  metadata?: Record<string, any>;
+  /** Whether the entry is a subfolder of the listed folder rather than a file */
+  isFolder?: boolean;
+}
+
+/**
+ * Page of a folder listing, for storages that list large folders in pages
+ */
+export interface IListFilesPage {
+  /** Files and subfolders (flagged isFolder) of the page */
+  entries: IExistingFile[];
+  /** Token requesting the next page; absent on the last page */
+  continuationToken?: string;
+}
+
+/**
+ * Prior revision of a file, kept when the file was overwritten in versioning mode
+ */
+export interface IFileVersion {
+  /** Identifier of the revision in the storage (snapshot time, version path, record ID, ...) */
+  versionId: string;
+  /** Size of the revision in bytes */
+  size: number;
+  /** Date when the revision was written */
+  lastModified: Date;
+  /** Additional metadata returned by the storage */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Result object returned after generating view URL operation
+ */
+export interface IGenerateViewUrlResult {
+  /** Name of the file for which the view URL was generated */
+  fileName: string;
+  /** SAS URL for viewing the file */
+  viewUrl: string;
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Error message if operation failed */
+  error?: string;
+  /** Flow execution ID for tracking */
+  flowRunId?: string;
+}
+
+/**
+ * Result object returned after file deletion operation
+ */
+export interface IDeleteResult {
+  /** Name of the file that was deleted */
+  fileName: string;
+  /** Whether the deletion was successful */
+  success: boolean;
+  /** Error message if deletion failed */
+  error?: string;
+  /** Flow execution ID for tracking */
+  flowRunId?: string;
+  /** Identifier of the file in the recycle bin when it was soft deleted */
+  deletedId?: string;
+}
+
+/**
+ * Result object returned after file download operation
+ */
+export interface IDownloadResult {
+  /** Name of the downloaded file */
+  fileName: string;
+  /** Whether the download was successful */
+  success: boolean;
+  /** Base64 encoded file content */
+  fileContent?: string;
+  /** MIME type of the file content */
+  contentType?: string;
+  /** File size in bytes */
+  fileSize?: number;
+  /** URL to open instead, for storages that do not return the content */
+  url?: string;
+  /** Error message if download failed */
+  error?: string;
+}
+
+/**
+ * Result object returned after file rename, move or copy operation
+ */
+export interface IRenameResult {
+  /** Name of the file before the operation */
+  fileName: string;
+  /** Name of the file after the operation */
+  newFileName: string;
+  /** Whether the operation was successful */
+  success: boolean;
+  /** Error message if operation failed */
+  error?: string;
+}
+
+/**
+ * Result object returned after folder creation operation
+ */
+export interface ICreateFolderResult {
+  /** Name of the created folder */
+  folderName: string;
+  /** Whether the creation was successful */
+  success: boolean;
+  /** Error message if creation failed */
+  error?: string;
+  /** Flow execution ID for tracking */
+  flowRunId?: string;
+}
+
+/**
+ * Soft deleted file kept in the recycle bin of a storage until its retention expires
+ */
+export interface IDeletedFile {
+  /** Name of the file when it was deleted */
+  name: string;
+  /** Size of the file in bytes */
+  size: number;
+  /** Identifier of the file in the recycle bin, used to restore it */
+  deletedId: string;
+  /** When the file was deleted */
+  deletedOn: Date;
+  /** When the retention period ends and the file is removed for good */
+  expiresOn?: Date;
+  /** Additional metadata returned by the storage */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Result object returned after restoring a soft deleted file
+ */
+export interface IRestoreDeletedFileResult {
+  /** Name of the restored file */
+  fileName: string;
+  /** Identifier of the file in the recycle bin */
+  deletedId: string;
+  /** Whether the restore was successful */
+  success: boolean;
+  /** Error message if restore failed */
+  error?: string;
+  /** Flow execution ID for tracking */
+  flowRunId?: string;
+}
+
+/**
+ * Result object returned after restoring a prior revision of a file
+ */
+export interface IRestoreVersionResult {
+  /** Name of the restored file */
+  fileName: string;
+  /** Identifier of the restored revision */
+  versionId: string;
+  /** Whether the restore was successful */
+  success: boolean;
+  /** Error message if restore failed */
+  error?: string;
+  /** Flow execution ID for tracking */
+  flowRunId?: string;
+}
+
+/**
+ * Options for a single upload
+ */
+export interface IUploadOptions {
+  /** Optional callback receiving the file bytes sent so far */
+  onProgress?: (progress: TransferProgressEvent) => void;
+  /** Optional callback invoked before every retry of a transient failure */
+  onRetry?: (attempt: number, error: Error, delayMs: number) => void;
+  /** Optional signal that cancels the upload */
+  signal?: AbortSignal;
+  /** Optional action chosen for a file whose name already exists */
+  conflictAction?: ConflictAction;
+  /** Optional metadata stored with the file, such as where and by whom it was captured */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Storage backend used by the control. Folder paths are relative to the storage
+ * root configured for the provider; an empty folder path is the root itself.
+ */
+export interface IStorageProvider {
+  /** Short name of the backend, reported as `method` in control events */
+  readonly name: string;
+  /** Whether the provider has everything it needs to run */
+  isConfigured: () => boolean;
+  /** Lists the files and subfolders (flagged isFolder) of a folder; rejects when the listing fails */
+  listFiles: (folderPath: string) => Promise<IExistingFile[]>;
+  /** Optional: lists a page of at most pageSize entries, continuing from a previous page's token; rejects when the listing fails */
+  listFilesPage?: (folderPath: string, pageSize: number, continuationToken?: string) => Promise<IListFilesPage>;
+  /** Uploads a file into a folder; failures are reported in the result */
+  uploadFile: (file: File, folderPath: string, options?: IUploadOptions) => Promise<IUploadResult>;
+  /** Deletes a file from a folder, or moves it to the recycle bin in soft delete mode; failures are reported in the result */
+  deleteFile: (fileName: string, folderPath: string) => Promise<IDeleteResult>;
+  /** Downloads a file from a folder; failures are reported in the result */
+  downloadFile: (fileName: string, folderPath: string) => Promise<IDownloadResult>;
+  /** Optional: generates a temporary URL for viewing a file */
+  generateViewUrl?: (fileName: string, folderPath: string) => Promise<IGenerateViewUrlResult>;
+  /** Optional: creates a subfolder in a folder */
+  createFolder?: (folderName: string, folderPath: string) => Promise<ICreateFolderResult>;
+  /** Optional: renames a file within its folder */
+  renameFile?: (fileName: string, newFileName: string, folderPath: string) => Promise<IRenameResult>;
+  /** Optional: moves a file to another folder */
+  moveFile?: (fileName: string, folderPath: string, targetFolderPath: string) => Promise<IRenameResult>;
+  /** Optional: copies a file to another folder */
+  copyFile?: (fileName: string, folderPath: string, targetFolderPath: string) => Promise<IRenameResult>;
+  /** Optional: lists the prior revisions of a file, newest first; rejects when the listing fails */
+  listVersions?: (fileName: string, folderPath: string) => Promise<IFileVersion[]>;
+  /** Optional: downloads a prior revision of a file; failures are reported in the result */
+  downloadVersion?: (fileName: string, folderPath: string, versionId: string) => Promise<IDownloadResult>;
+  /** Optional: makes a prior revision the current file again, keeping the replaced one as a revision */
+  restoreVersion?: (fileName: string, folderPath: string, versionId: string) => Promise<IRestoreVersionResult>;
+  /** Optional: lists the soft deleted files of a folder that are still retained, most recently deleted first; rejects when the listing fails */
+  listDeletedFiles?: (folderPath: string) => Promise<IDeletedFile[]>;
+  /** Optional: moves a soft deleted file back to its folder */
+  restoreDeletedFile?: (fileName: string, folderPath: string, deletedId: string) => Promise<IRestoreDeletedFileResult>;
+  /** Optional: reads the metadata of a single file */
+  getFileMetadata?: (fileName: string, folderPath: string) => Promise<Record<string, any>>;
+}
+
+/**
+ * Runs an async worker over items with at most `limit` workers running at once.
+ * Results keep the order of the items, not the order in which workers finish.
+ * @param items - Items to process
+ * @param limit - Maximum number of workers running at the same time
+ * @param worker - Async function processing a single item
+ * @returns Promise resolving to the worker results in item order
+ */
+export const runWithConcurrencyLimit = async <TItem, TResult>(
+  items: TItem[],
+  limit: number,
+  worker: (item: TItem, index: number) => Promise<TResult>
+): Promise<TResult[]> => {
+  const results: TResult[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // Each lane picks the next unprocessed item until the queue is empty
+  const runLane = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const laneCount = Math.min(Math.max(1, Math.floor(limit) || 1), items.length);
+  await Promise.all(Array.from({ length: laneCount }, () => runLane()));
+  return results;
+};
+
+/**
+ * Utility function to convert File (or a slice of it) to Base64
+ * @param file - File or Blob to convert
+ * @returns Promise resolving to Base64 string
+ */
+export const fileToBase64 = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (reader.result) {
+        // Remove the data URL prefix (e.g., "data:image/png;base64,")
+        const base64 = (reader.result as string).split(',')[1];
+        resolve(base64);
+      } else {
+        reject(new Error('Failed to read file'));
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+/**
+ * Converts base64 file content back to a Blob, decoding it in slices so the
+ * intermediate byte arrays stay small
+ * @param base64 - Base64 encoded content, without data URL prefix
+ * @param contentType - MIME type of the content
+ * @returns Blob holding the decoded bytes
+ */
+export const base64ToBlob = (base64: string, contentType = 'application/octet-stream'): Blob => {
+  // Slices are a multiple of 4 characters, so each decodes on its own
+  const sliceLength = 4 * 256 * 1024;
+  const parts: Uint8Array[] = [];
+  for (let offset = 0; offset < base64.length; offset += sliceLength) {
+    const binary = atob(base64.slice(offset, offset + sliceLength));
+    const bytes = new Uint8Array(binary.length);
+    for (let index = 0; index < binary.length; index++) {
+      bytes[index] = binary.charCodeAt(index);
+    }
+    parts.push(bytes);
+  }
+  return new Blob(parts, { type: contentType });
+};
+
+/**
+ * Creates a progress event for a number of file bytes sent
+ * @param loadedBytes - File bytes sent so far
+ * @param totalBytes - Total file size in bytes
+ * @returns Transfer progress event
+ */
+export const createTransferProgressEvent = (loadedBytes: number, totalBytes: number): TransferProgressEvent => {
+  const boundedBytes = Math.min(Math.max(loadedBytes, 0), totalBytes);
+  return {
+    loadedBytes: boundedBytes,
+    totalBytes: totalBytes,
+    percentage: totalBytes > 0 ? Math.floor((boundedBytes / totalBytes) * 100) : 100,
+  };
+};
+
+/**
+ * Creates the block ID for a block index. IDs are deterministic so that a resumed
+ * upload re-stages the same IDs, and zero-padded because Azure (which also backs
+ * Dataverse file storage) requires every block ID of a blob to have the same length.
+ * @param blockIndex - Zero-based index of the block
+ * @returns Base64 encoded block ID
+ */
+export const createBlockId = (blockIndex: number): string => {
+  return btoa(`block-${String(blockIndex).padStart(6, '0')}`);
+};
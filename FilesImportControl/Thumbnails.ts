@@ -0,0 +1,170 @@
+/**
+ * Thumbnails.ts
+ *
+ * Thumbnails of image files shown in the grid view. Images are scaled down on a
+ * canvas into small JPEG data URLs, so no object URL has to be released. Thumbnails
+ * of existing files are cached for the session, keyed by the storage, folder and
+ * file version; thumbnails of pending files are cached with their File object.
+ */
+
+/** Longest side of a thumbnail, in pixels */
+export const THUMBNAIL_SIZE = 192;
+
+/** Existing images larger than this are shown with their file type icon instead of being downloaded */
+export const THUMBNAIL_SOURCE_SIZE_LIMIT = 20 * 1024 * 1024;
+
+/** JPEG quality of the thumbnails */
+const THUMBNAIL_QUALITY = 0.8;
+
+/** Existing file thumbnails kept for the session; the oldest are dropped first */
+const MAX_CACHED_THUMBNAILS = 500;
+
+/** Time before an image that could not be downloaded is downloaded again, in milliseconds */
+const THUMBNAIL_RETRY_DELAY_MS = 60 * 1000;
+
+// Thumbnail data URLs by cache key, null when the image could not be decoded
+const sessionThumbnails = new Map<string, string | null>();
+// Times of failed image downloads by cache key; a download may succeed later, so these are not cached
+const failedThumbnailDownloads = new Map<string, number>();
+// Thumbnails being created, so a file is only downloaded once
+const loadingThumbnails = new Map<string, Promise<string | null>>();
+// Thumbnails of pending files, released along with their File object
+const fileThumbnails = new WeakMap<File, string | null>();
+
+/**
+ * Scales an image down into a thumbnail
+ * @param image - Image content
+ * @param size - Longest side of the thumbnail, in pixels
+ * @returns Promise resolving to the thumbnail as JPEG data URL
+ */
+export const createImageThumbnail = (image: Blob, size: number = THUMBNAIL_SIZE): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(image);
+    const element = new Image();
+    element.onload = () => {
+      try {
+        // SVG images without dimensions report 0 and are drawn at the thumbnail size
+        const width = element.naturalWidth || size;
+        const height = element.naturalHeight || size;
+        const scale = Math.min(1, size / Math.max(width, height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(width * scale));
+        canvas.height = Math.max(1, Math.round(height * scale));
+        const context = canvas.getContext('2d');
+        if (!context) {
+          throw new Error('Canvas is not available');
+        }
+        // JPEG has no transparency, so transparent images get a white background
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.drawImage(element, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY));
+      } catch (error) {
+        reject(error);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    };
+    element.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The image could not be read'));
+    };
+    element.src = url;
+  });
+};
+
+/**
+ * Builds the session cache key of an existing file thumbnail. A file replaced
+ * with a new version gets a new key.
+ * @param storageName - Name of the storage provider
+ * @param folderPath - Folder path of the file
+ * @param fileName - Name of the file
+ * @param lastModified - Last modification date of the file
+ * @returns Thumbnail cache key
+ */
+export const getThumbnailCacheKey = (storageName: string, folderPath: string, fileName: string, lastModified: Date): string => {
+  return [storageName, folderPath, fileName, lastModified.getTime()].join('|');
+};
+
+/**
+ * Reads a thumbnail from the session cache
+ * @param key - Thumbnail cache key
+ * @returns Thumbnail data URL, null when the image could not be decoded or its download failed
+ * recently, or undefined when it is to be loaded
+ */
+export const getCachedThumbnail = (key: string): string | null | undefined => {
+  const failedOn = failedThumbnailDownloads.get(key);
+  if (failedOn !== undefined) {
+    if (Date.now() - failedOn < THUMBNAIL_RETRY_DELAY_MS) {
+      return null;
+    }
+    failedThumbnailDownloads.delete(key);
+  }
+  return sessionThumbnails.get(key);
+};
+
+/**
+ * Creates the thumbnail of an existing file once per session. An image that cannot be
+ * decoded is cached as null; a failed download is tried again after a delay.
+ * @param key - Thumbnail cache key
+ * @param loadImage - Loads the image content, typically through the storage provider
+ * @returns Promise resolving to the thumbnail data URL, or null when the image could not be read
+ */
+export const loadCachedThumbnail = (key: string, loadImage: () => Promise<Blob>): Promise<string | null> => {
+  if (sessionThumbnails.has(key)) {
+    return Promise.resolve(sessionThumbnails.get(key) ?? null);
+  }
+  let loading = loadingThumbnails.get(key);
+  if (!loading) {
+    loading = loadImage()
+      .then(
+        image => createImageThumbnail(image)
+          .catch(error => {
+            console.warn(`Thumbnail of ${key} could not be created:`, error);
+            return null;
+          })
+          .then(thumbnail => {
+            if (sessionThumbnails.size >= MAX_CACHED_THUMBNAILS) {
+              // Maps iterate in insertion order, so the first key is the oldest thumbnail
+              sessionThumbnails.delete(sessionThumbnails.keys().next().value as string);
+            }
+            sessionThumbnails.set(key, thumbnail);
+            return thumbnail;
+          }),
+        error => {
+          console.warn(`Image of ${key} could not be downloaded for its thumbnail:`, error);
+          failedThumbnailDownloads.set(key, Date.now());
+          return null;
+        }
+      )
+      .finally(() => loadingThumbnails.delete(key));
+    loadingThumbnails.set(key, loading);
+  }
+  return loading;
+};
+
+/**
+ * Reads the thumbnail of a pending file
+ * @param file - File selected for upload
+ * @returns Thumbnail data URL, null when the image could not be read, or undefined when not created yet
+ */
+export const getFileThumbnail = (file: File): string | null | undefined => {
+  return fileThumbnails.get(file);
+};
+
+/**
+ * Creates the thumbnail of a pending file from its content
+ * @param file - Image file selected for upload
+ * @returns Promise resolving to the thumbnail data URL, or null when the image could not be read
+ */
+export const loadFileThumbnail = async (file: File): Promise<string | null> => {
+  if (!fileThumbnails.has(file)) {
+    try {
+      fileThumbnails.set(file, await createImageThumbnail(file));
+    } catch (error) {
+      console.warn(`Thumbnail of ${file.name} could not be created:`, error);
+      fileThumbnails.set(file, null);
+    }
+  }
+  return fileThumbnails.get(file) ?? null;
+};
@@ -0,0 +1,171 @@
+/**
+ * ZipArchive.ts
+ *
+ * Builds ZIP archives in the browser, used to download several existing files as
+ * one file. Entries are stored without compression and kept as Blobs, so the
+ * browser can hold the archive content outside the JavaScript heap; only the
+ * CRC-32 of each entry is computed, reading it in chunks.
+ */
+
+/** Chunk size used to compute the CRC-32 of an entry */
+const CRC_CHUNK_SIZE = 1024 * 1024;
+
+/** ZIP archives without the Zip64 extension are limited to 4 GB and 65535 entries */
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+/** General purpose flag marking file names as UTF-8 */
+const UTF8_NAME_FLAG = 0x0800;
+
+/**
+ * Entry written to the archive, remembered for the central directory
+ */
+interface IZipEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  dosTime: number;
+  dosDate: number;
+  offset: number;
+}
+
+/**
+ * Builder of a ZIP archive, adding one entry at a time
+ */
+export interface IZipArchiveBuilder {
+  /** Adds a file to the archive */
+  addFile(fileName: string, content: Blob, lastModified?: Date): Promise<void>;
+  /** Number of files added so far */
+  getFileCount(): number;
+  /** Completes the archive with its central directory */
+  toBlob(): Blob;
+}
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let index = 0; index < 256; index++) {
+      let value = index;
+      for (let bit = 0; bit < 8; bit++) {
+        value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+      }
+      crcTable[index] = value >>> 0;
+    }
+  }
+  return crcTable;
+};
+
+/**
+ * Computes the CRC-32 of a Blob, reading it in chunks
+ * @param content - Content of the entry
+ * @returns CRC-32 as unsigned number
+ */
+const computeCrc32 = async (content: Blob): Promise<number> => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < content.size; offset += CRC_CHUNK_SIZE) {
+    const bytes = new Uint8Array(await content.slice(offset, offset + CRC_CHUNK_SIZE).arrayBuffer());
+    for (let index = 0; index < bytes.length; index++) {
+      crc = table[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Converts a date to the MS-DOS time and date fields of ZIP headers
+ * @param date - Date to convert, clamped to 1980 which DOS dates start at
+ * @returns DOS time and date
+ */
+const toDosDateTime = (date: Date): { dosTime: number; dosDate: number } => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+/**
+ * Creates a builder that writes stored (uncompressed) ZIP entries
+ * @returns ZIP archive builder
+ */
+export const createZipArchiveBuilder = (): IZipArchiveBuilder => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const entries: IZipEntry[] = [];
+  let offset = 0;
+
+  const addFile = async (fileName: string, content: Blob, lastModified: Date = new Date()): Promise<void> => {
+    const name = encoder.encode(fileName);
+    const localHeaderSize = 30 + name.length;
+    if (entries.length >= MAX_ZIP_ENTRIES || offset + localHeaderSize + content.size > MAX_ZIP_SIZE) {
+      throw new Error('The ZIP archive would exceed 4 GB or 65535 files');
+    }
+
+    const { dosTime, dosDate } = toDosDateTime(lastModified);
+    const entry: IZipEntry = { name, crc: await computeCrc32(content), size: content.size, dosTime, dosDate, offset };
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true); // Local file header signature
+    header.setUint16(4, 20, true); // Version needed to extract
+    header.setUint16(6, UTF8_NAME_FLAG, true);
+    header.setUint16(8, 0, true); // Stored, no compression
+    header.setUint16(10, entry.dosTime, true);
+    header.setUint16(12, entry.dosDate, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, entry.size, true); // Compressed size
+    header.setUint32(22, entry.size, true); // Uncompressed size
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, 0, true); // Extra field length
+
+    parts.push(header.buffer, name, content);
+    entries.push(entry);
+    offset += localHeaderSize + content.size;
+  };
+
+  const getFileCount = (): number => {
+    return entries.length;
+  };
+
+  const toBlob = (): Blob => {
+    const directoryParts: BlobPart[] = [];
+    let directorySize = 0;
+
+    for (const entry of entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true); // Central directory header signature
+      header.setUint16(4, 20, true); // Version made by
+      header.setUint16(6, 20, true); // Version needed to extract
+      header.setUint16(8, UTF8_NAME_FLAG, true);
+      header.setUint16(10, 0, true); // Stored, no compression
+      header.setUint16(12, entry.dosTime, true);
+      header.setUint16(14, entry.dosDate, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      // Extra field, comment, disk number and attributes stay 0
+      header.setUint32(42, entry.offset, true);
+
+      directoryParts.push(header.buffer, entry.name);
+      directorySize += 46 + entry.name.length;
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true); // End of central directory signature
+    end.setUint16(8, entries.length, true); // Entries on this disk
+    end.setUint16(10, entries.length, true); // Total entries
+    end.setUint32(12, directorySize, true);
+    end.setUint32(16, offset, true); // Offset of the central directory
+
+    return new Blob([...parts, ...directoryParts, end.buffer], { type: 'application/zip' });
+  };
+
+  return {
+    addFile,
+    getFileCount,
+    toBlob,
+  };
+};
@@ -24,13 +24,42 @@ export interface IInputs {
     AllowDropFilesText: ComponentFramework.PropertyTypes.StringProperty;
     ShowActionSpinner: ComponentFramework.PropertyTypes.TwoOptionsProperty;
     MaxTotalFileSizeMB: ComponentFramework.PropertyTypes.WholeNumberProperty;
+    EnableDeviceCapture: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    BarcodeFileNamePattern: ComponentFramework.PropertyTypes.StringProperty;
+    BarcodeSubfolder: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    CaptureUploadMetadata: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    StorageMode: ComponentFramework.PropertyTypes.EnumProperty<"0" | "1" | "2" | "3" | "4">;
+    EntityLogicalName: ComponentFramework.PropertyTypes.StringProperty;
+    SimulationLatencyMs: ComponentFramework.PropertyTypes.WholeNumberProperty;
+    SimulationFailureRate: ComponentFramework.PropertyTypes.WholeNumberProperty;
+    FileColumnName: ComponentFramework.PropertyTypes.StringProperty;
+    ConflictBehavior: ComponentFramework.PropertyTypes.EnumProperty<"0" | "1" | "2" | "3">;
+    EnableVersioning: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    EnableSoftDelete: ComponentFramework.PropertyTypes.TwoOptionsProperty;
+    SoftDeleteRetentionDays: ComponentFramework.PropertyTypes.WholeNumberProperty;
     CloudFlowUploadUrl: ComponentFramework.PropertyTypes.StringProperty;
     CloudFlowListFilesUrl: ComponentFramework.PropertyTypes.StringProperty;
     CloudFlowDeleteUrl: ComponentFramework.PropertyTypes.StringProperty;
     CloudFlowDownloadUrl: ComponentFramework.PropertyTypes.StringProperty;
+    CloudFlowUploadBlockUrl: ComponentFramework.PropertyTypes.StringProperty;
+    CloudFlowCommitBlocksUrl: ComponentFramework.PropertyTypes.StringProperty;
+    CloudFlowCreateFolderUrl: ComponentFramework.PropertyTypes.StringProperty;
+    CloudFlowRenameUrl: ComponentFramework.PropertyTypes.StringProperty;
+    CloudFlowMoveUrl: ComponentFramework.PropertyTypes.StringProperty;
+    CloudFlowCopyUrl: ComponentFramework.PropertyTypes.StringProperty;
+    CloudFlowListVersionsUrl: ComponentFramework.PropertyTypes.StringProperty;
+    CloudFlowRestoreVersionUrl: ComponentFramework.PropertyTypes.StringProperty;
+    CloudFlowListDeletedUrl: ComponentFramework.PropertyTypes.StringProperty;
+    CloudFlowRestoreDeletedUrl: ComponentFramework.PropertyTypes.StringProperty;
+    UploadBlockSizeMB: ComponentFramework.PropertyTypes.WholeNumberProperty;
+    MaxConcurrentUploads: ComponentFramework.PropertyTypes.WholeNumberProperty;
+    MaxRetryAttempts: ComponentFramework.PropertyTypes.WholeNumberProperty;
+    RetryBaseDelayMs: ComponentFramework.PropertyTypes.WholeNumberProperty;
+    RetryMaxDelayMs: ComponentFramework.PropertyTypes.WholeNumberProperty;
     ContainerPath: ComponentFramework.PropertyTypes.StringProperty;
     ListFilesFolderName: ComponentFramework.PropertyTypes.StringProperty;
     RecordUid: ComponentFramework.PropertyTypes.StringProperty;
+    ListFilesPageSize: ComponentFramework.PropertyTypes.WholeNumberProperty;
 }
 export interface IOutputs {
     Text?: string;
@@ -20,6 +20,16 @@ import {
   EyeFilled,
   DeleteRegular,
   DeleteFilled,
+  DocumentRegular,
+  DocumentPdfRegular,
+  DocumentTableRegular,
+  DocumentTextRegular,
+  ImageRegular,
+  VideoRegular,
+  MusicNote2Regular,
+  FolderZipRegular,
+  SlideTextRegular,
+  CodeRegular,
 } from "@fluentui/react-icons";
 import * as React from "react";
 
@@ -98,3 +108,66 @@ export function getIcon(
   // Return the rendered JSX element
   return <IconComponent />;
 }
+
+/**
+ * Retrieves the Fluent UI icon component that represents a file type
+ * 
+ * Used where a file is shown without a thumbnail, such as in the grid view of
+ * files. The icon is chosen from the extension of the file name.
+ * 
+ * @param fileName - Name of the file, including its extension
+ * @returns React component for the file type, or DocumentRegular as fallback
+ * 
+ * @example
+ * ```tsx
+ * const FileIcon = getFileTypeIconComponent('report.pdf');
+ * return <FileIcon fontSize={48} />;
+ * ```
+ */
+export function getFileTypeIconComponent(fileName: string): React.ComponentType<any> {
+  // Map of file extensions to the icon of their file type
+  const fileTypeIcons: Record<string, React.ComponentType<any>> = {
+    pdf: DocumentPdfRegular,
+    png: ImageRegular,
+    jpg: ImageRegular,
+    jpeg: ImageRegular,
+    gif: ImageRegular,
+    bmp: ImageRegular,
+    webp: ImageRegular,
+    svg: ImageRegular,
+    heic: ImageRegular,
+    tif: ImageRegular,
+    tiff: ImageRegular,
+    mp4: VideoRegular,
+    mov: VideoRegular,
+    avi: VideoRegular,
+    wmv: VideoRegular,
+    webm: VideoRegular,
+    mp3: MusicNote2Regular,
+    wav: MusicNote2Regular,
+    m4a: MusicNote2Regular,
+    ogg: MusicNote2Regular,
+    xls: DocumentTableRegular,
+    xlsx: DocumentTableRegular,
+    csv: DocumentTableRegular,
+    doc: DocumentTextRegular,
+    docx: DocumentTextRegular,
+    txt: DocumentTextRegular,
+    rtf: DocumentTextRegular,
+    md: DocumentTextRegular,
+    ppt: SlideTextRegular,
+    pptx: SlideTextRegular,
+    zip: FolderZipRegular,
+    rar: FolderZipRegular,
+    '7z': FolderZipRegular,
+    json: CodeRegular,
+    xml: CodeRegular,
+    html: CodeRegular,
+  };
+
+  const dotIndex = fileName.lastIndexOf('.');
+  const extension = dotIndex > 0 ? fileName.substring(dotIndex + 1).toLowerCase() : '';
+
+  // Return the icon of the file type or fallback to the generic document icon
+  return fileTypeIcons[extension] || DocumentRegular;
+}
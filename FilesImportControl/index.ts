@@ -4,6 +4,23 @@ import {
   FilesImportControl,
   IFilesImportControlProps,
 } from "./FilesImportControl";
+import { IStorageProvider, ConflictAction } from "./StorageProvider";
+import {
+  createCloudFlowStorageProvider,
+  ICloudFlowStorageConfig,
+  IRetryPolicy,
+} from "./PowerAutomateCloudFlows";
+import { createDataverseNotesStorageProvider } from "./DataverseNotes";
+import { createDataverseFileColumnStorageProvider } from "./DataverseFileColumn";
+import { createSimulatedStorageProvider } from "./SimulatedStorage";
+
+// Conflict behavior of each ConflictBehavior enum value
+const CONFLICT_BEHAVIORS: Record<IInputs["ConflictBehavior"]["raw"], ConflictAction | "Prompt"> = {
+  "0": "Overwrite",
+  "1": "AutoRename",
+  "2": "Skip",
+  "3": "Prompt",
+};
 
 export class FluentFilesImportControl
   implements ComponentFramework.ReactControl<IInputs, IOutputs>
@@ -12,7 +29,10 @@ export class FluentFilesImportControl
   private filesAsJSON: string | null = null;
   private existingFiles: string | null = null;
   private uploadResults: string | null = null;
-  private lastUploadStatus: number = 0; // 0 = None, 1 = InProgress, 2 = Completed, 3 = Failed
+  private lastUploadStatus: number = 0; // 0 = None, 1 = InProgress, 2 = Completed, 3 = Failed, 4 = Cancelled
+  private storageProvider: IStorageProvider | null = null;
+  private storageProviderKey: string | null = null;
+  private controlState: ComponentFramework.Dictionary | null = null;
 
   /**
    * Used to initialize the control instance. Controls can kick off remote server calls and other initialization actions here.
@@ -27,6 +47,8 @@ export class FluentFilesImportControl
     state: ComponentFramework.Dictionary
   ): void {
     this.notifyOutputChanged = notifyOutputChanged;
+    // Keeps the sort of the existing files chosen earlier in the session
+    this.controlState = state || null;
   }
 
   /**
@@ -64,16 +86,19 @@ export class FluentFilesImportControl
       buttonAllowDropFilesText:
         context.parameters.AllowDropFilesText?.raw || "Drop files here...",
       maxTotalFileSizeMB: context.parameters.MaxTotalFileSizeMB?.raw || 20,
-      // Cloud Flow Configuration properties
-      cloudFlowUploadUrl: context.parameters.CloudFlowUploadUrl?.raw || null,
-      cloudFlowListFilesUrl:
-        context.parameters.CloudFlowListFilesUrl?.raw || null,
-      cloudFlowDeleteUrl: context.parameters.CloudFlowDeleteUrl?.raw || null,
-      cloudFlowDownloadUrl:
-        context.parameters.CloudFlowDownloadUrl?.raw || null,
-      containerPath: context.parameters.ContainerPath?.raw || null,
+      enableDeviceCapture: context.parameters.EnableDeviceCapture?.raw ?? false,
+      barcodeFileNamePattern: context.parameters.BarcodeFileNamePattern?.raw || null,
+      barcodeSubfolder: context.parameters.BarcodeSubfolder?.raw ?? false,
+      captureUploadMetadata: context.parameters.CaptureUploadMetadata?.raw ?? false,
+      // Storage properties
+      storageProvider: this.getStorageProvider(context),
+      maxConcurrentUploads: context.parameters.MaxConcurrentUploads?.raw || 3,
+      maxRetryAttempts: context.parameters.MaxRetryAttempts?.raw || 3,
+      conflictBehavior: CONFLICT_BEHAVIORS[context.parameters.ConflictBehavior?.raw || "0"],
       listFilesFolderName: context.parameters.ListFilesFolderName?.raw || null,
       recordUid: context.parameters.RecordUid?.raw || null,
+      listFilesPageSize: context.parameters.ListFilesPageSize?.raw ?? 100,
+      existingFilesSort: this.controlState?.existingFilesSort || null,
       context: context, // Pass the context for accessing localized resources
       onEvent: this.handleFileUpload.bind(this),
     };
@@ -81,6 +106,136 @@ export class FluentFilesImportControl
     return React.createElement(FilesImportControl, props);
   }
 
+  /**
+   * Returns the storage provider for the current property values. The provider is
+   * only recreated when its configuration changes, so the component can depend on it.
+   * @param context The entire property bag available to control via Context Object
+   * @returns Storage provider used by the component
+   */
+  private getStorageProvider(
+    context: ComponentFramework.Context<IInputs>
+  ): IStorageProvider {
+    // 0 = Cloud Flow, 1 = Dataverse Notes, 2 = Dataverse File Column, 3 = Dataverse Image Column, 4 = Simulation
+    const storageMode = context.parameters.StorageMode?.raw || "0";
+    const versioning = context.parameters.EnableVersioning?.raw ?? false;
+    const softDelete = context.parameters.EnableSoftDelete?.raw ?? false;
+    const retentionDays = context.parameters.SoftDeleteRetentionDays?.raw || 30;
+
+    if (storageMode === "1") {
+      const entityLogicalName = context.parameters.EntityLogicalName?.raw || "";
+      const recordId = context.parameters.RecordUid?.raw || "";
+      return this.cacheStorageProvider(
+        JSON.stringify({ storageMode, entityLogicalName, recordId, versioning }),
+        () =>
+          createDataverseNotesStorageProvider({
+            webAPI: context.webAPI,
+            utils: context.utils,
+            entityLogicalName,
+            recordId,
+            versioning,
+          })
+      );
+    }
+
+    if (
+      storageMode === "2" ||
+      storageMode === "3"
+    ) {
+      const entityLogicalName = context.parameters.EntityLogicalName?.raw || "";
+      const recordId = context.parameters.RecordUid?.raw || "";
+      const columnName = context.parameters.FileColumnName?.raw || "";
+      return this.cacheStorageProvider(
+        JSON.stringify({ storageMode, entityLogicalName, recordId, columnName }),
+        () =>
+          createDataverseFileColumnStorageProvider({
+            webAPI: context.webAPI,
+            utils: context.utils,
+            entityLogicalName,
+            recordId,
+            columnName,
+            isImageColumn: storageMode === "3",
+          })
+      );
+    }
+
+    if (storageMode === "4") {
+      const config = {
+        latencyMs: context.parameters.SimulationLatencyMs?.raw ?? 800,
+        failureRate: context.parameters.SimulationFailureRate?.raw ?? 0,
+        retryPolicy: this.getRetryPolicy(context),
+        softDelete,
+        retentionDays,
+      };
+      return this.cacheStorageProvider(
+        JSON.stringify({ storageMode, ...config }),
+        () => createSimulatedStorageProvider(config)
+      );
+    }
+
+    const config: ICloudFlowStorageConfig = {
+      uploadUrl: context.parameters.CloudFlowUploadUrl?.raw || "",
+      listFilesUrl: context.parameters.CloudFlowListFilesUrl?.raw || "",
+      deleteUrl: context.parameters.CloudFlowDeleteUrl?.raw || "",
+      downloadUrl: context.parameters.CloudFlowDownloadUrl?.raw || "",
+      uploadBlockUrl: context.parameters.CloudFlowUploadBlockUrl?.raw || "",
+      commitBlocksUrl: context.parameters.CloudFlowCommitBlocksUrl?.raw || "",
+      createFolderUrl: context.parameters.CloudFlowCreateFolderUrl?.raw || "",
+      renameUrl: context.parameters.CloudFlowRenameUrl?.raw || "",
+      moveUrl: context.parameters.CloudFlowMoveUrl?.raw || "",
+      copyUrl: context.parameters.CloudFlowCopyUrl?.raw || "",
+      versioning,
+      listVersionsUrl: context.parameters.CloudFlowListVersionsUrl?.raw || "",
+      restoreVersionUrl: context.parameters.CloudFlowRestoreVersionUrl?.raw || "",
+      softDelete,
+      retentionDays,
+      listDeletedUrl: context.parameters.CloudFlowListDeletedUrl?.raw || "",
+      restoreDeletedUrl: context.parameters.CloudFlowRestoreDeletedUrl?.raw || "",
+      containerPath: context.parameters.ContainerPath?.raw || "",
+      blockSize:
+        Math.max(context.parameters.UploadBlockSizeMB?.raw || 4, 1) *
+        1024 *
+        1024,
+      retryPolicy: this.getRetryPolicy(context),
+    };
+
+    return this.cacheStorageProvider(
+      JSON.stringify({ storageMode, ...config }),
+      () => createCloudFlowStorageProvider(config)
+    );
+  }
+
+  /**
+   * Reads the retry policy for transient storage failures.
+   * @param context The entire property bag available to control via Context Object
+   * @returns Retry policy built from the retry properties
+   */
+  private getRetryPolicy(
+    context: ComponentFramework.Context<IInputs>
+  ): IRetryPolicy {
+    return {
+      maxAttempts: Math.max(context.parameters.MaxRetryAttempts?.raw || 3, 1),
+      baseDelayMs: context.parameters.RetryBaseDelayMs?.raw || 1000,
+      maxDelayMs: context.parameters.RetryMaxDelayMs?.raw || 30000,
+    };
+  }
+
+  /**
+   * Keeps the current storage provider while its configuration key is unchanged.
+   * @param key Serialized provider configuration
+   * @param create Creates the provider for a new configuration
+   * @returns The cached or newly created storage provider
+   */
+  private cacheStorageProvider(
+    key: string,
+    create: () => IStorageProvider
+  ): IStorageProvider {
+    if (!this.storageProvider || this.storageProviderKey !== key) {
+      this.storageProvider = create();
+      this.storageProviderKey = key;
+    }
+    return this.storageProvider;
+  }
+
   /**
    * Handles the file upload event.
    * @param event Contains JSON with the list of uploaded files and upload results.
@@ -119,6 +274,9 @@ export class FluentFilesImportControl
         case "Failed":
           this.lastUploadStatus = 3;
           break;
+        case "Cancelled":
+          this.lastUploadStatus = 4;
+          break;
         default:
           this.lastUploadStatus = 0;
       }